@@ -0,0 +1,86 @@
+import {ApiError, isRequestCancelled, NetworkError, StavaxError} from './errors.js';
+import type {Logger}                                             from './logger.js';
+import {type RequestOptions, retryFetch, withTimeout}            from './request.js';
+import {getSDKDeviceID, type StavaxStorage}                      from './storage.js';
+import type {StavaxAccountConfig}                                from './types.js';
+
+export interface ApiRequestOptions extends RequestOptions {
+    /**
+     * Whether the request can safely be retried according to the `retry` config
+     */
+    idempotent?: boolean;
+}
+
+/**
+ * Client of Stavax API shared by StavaxAccount and its managers.
+ */
+export class StavaxAPI {
+    constructor(private readonly config: StavaxAccountConfig, private readonly storage: StavaxStorage, private readonly log: Logger) {
+    }
+
+    /**
+     * Sends a request to Stavax API and returns the `data` field of the response.
+     *
+     * @throws {ApiError} Throws an error if Stavax API responds with an unsuccessful status.
+     */
+    async request<T>(path: string, init?: RequestInit, options?: ApiRequestOptions): Promise<T> {
+        return this.fetch(path, init, options, async res => {
+            if (!res.ok) {
+                throw await ApiError.fromResponse(res);
+            }
+
+            const json = await res.json();
+            return json.data;
+        });
+    }
+
+    /**
+     * Sends a JSON POST request to Stavax API and returns the `data` field of the response.
+     */
+    async post<T>(path: string, body: unknown, options?: ApiRequestOptions): Promise<T> {
+        return this.request(path, {
+            method: 'POST',
+            body  : JSON.stringify(body),
+        }, options);
+    }
+
+    /**
+     * Sends a request to Stavax API and reads its response with `read`, both bounded by `requestTimeout` unless overridden by the options,
+     * so that a stalled response body is aborted as well. Idempotent requests are retried according to the `retry` config.
+     */
+    async fetch<T>(path: string, init: RequestInit | undefined, options: ApiRequestOptions | undefined, read: (res: Response) => Promise<T>): Promise<T> {
+        const method = init?.method || 'GET';
+        const start = Date.now();
+        try {
+            return await withTimeout(async signal => {
+                // The device ID may come from an asynchronous storage
+                await this.storage.ready;
+
+                const fetchFn = this.config.fetch || fetch;
+                const doFetch = () => fetchFn(this.config.apiURL + path, {
+                        mode   : 'cors',
+                        headers: {
+                            'X-Project-ID'   : this.config.projectID,
+                            'X-SDK-Device-ID': getSDKDeviceID(this.storage),
+                        },
+                        ...(init || {}),
+                        signal,
+                    },
+                );
+
+                const res = !options?.idempotent || this.config.retry === false
+                    ? await doFetch()
+                    : await retryFetch(doFetch, this.config.retry, signal);
+
+                this.log.debug(`${method} ${path}`, {status: res.status, duration: Date.now() - start});
+                return read(res);
+            }, options?.timeout ?? this.config.requestTimeout!, options?.signal);
+        } catch (err) {
+            this.log.debug(`${method} ${path} failed`, {error: err, duration: Date.now() - start});
+            if (isRequestCancelled(err) || err instanceof StavaxError) {
+                throw err;
+            }
+            throw new NetworkError(err);
+        }
+    }
+}
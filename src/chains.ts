@@ -0,0 +1,246 @@
+import type {Config}                                          from '@wagmi/core';
+import {
+    type AddEthereumChainParameter,
+    type Chain,
+    type Client,
+    createPublicClient,
+    defineChain,
+    http,
+    type Transport,
+}                                                             from 'viem';
+import type {StavaxAPI}                                       from './api.js';
+import {ChainNotSupportedError, StavaxError, StavaxErrorCode} from './errors.js';
+import type {Logger}                                          from './logger.js';
+import type {RequestOptions}                                  from './request.js';
+import {type StavaxStorage, storageKeys}                      from './storage.js';
+import type {StavaxChain}                                     from './types.js';
+
+const defaultChainId = 1;
+
+export interface ChainRegistryContext {
+    api: StavaxAPI;
+    storage: StavaxStorage;
+    getWagmiConfig: () => Config | undefined;
+    log: Logger;
+}
+
+/**
+ * Chains the provider can switch to: those of the wagmi config and those added with `wallet_addEthereumChain`,
+ * restricted to the chains supported by Stavax Account once they are loaded.
+ */
+export class ChainRegistry {
+    private stavaxChains?: Promise<StavaxChain[] | undefined>;
+    private supportedChainIds?: Set<number>;
+    private readonly clients = new Map<number, Client>();
+    /**
+     * Chains and transports given by `stavaxConnector`, used while the wagmi config is not set
+     */
+    private connectorChains?: readonly Chain[];
+    private connectorTransports?: Record<number, Transport>;
+
+    constructor(private readonly context: ChainRegistryContext) {
+    }
+
+    /**
+     * Uses the chains and transports of the wagmi config a connector is created for, since the connector does not get the config itself.
+     *
+     * @param {readonly Chain[]} chains - Chains of the wagmi config.
+     * @param {Record<number, Transport>} [transports] - Optional. Transports of the wagmi config, by chain ID.
+     */
+    useChains(chains: readonly Chain[], transports?: Record<number, Transport>) {
+        this.connectorChains = chains;
+        this.connectorTransports = transports;
+        this.clients.clear();
+    }
+
+    /**
+     * Loads the chains supported by Stavax Account once, a failed request is retried on the next call.
+     *
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<StavaxChain[] | undefined>} A promise that resolves with the chains, or undefined if Stavax API cannot list them.
+     */
+    async load(options?: RequestOptions): Promise<StavaxChain[] | undefined> {
+        if (!this.stavaxChains) {
+            this.stavaxChains = this.context.api.request<StavaxChain[] | null>('/sdk-api/chains', undefined, {...options, idempotent: true}).then(
+                chains => {
+                    if (!chains?.length) return undefined;
+                    this.supportedChainIds = new Set(chains.map(chain => chain.chain_id));
+                    return chains;
+                },
+                err => {
+                    this.context.log.warn('cannot load the chains supported by Stavax Account', {error: err});
+                    // Let the next call try again
+                    this.stavaxChains = undefined;
+                    return undefined;
+                },
+            );
+        }
+
+        return this.stavaxChains;
+    }
+
+    /**
+     * Chains of the wagmi config followed by the added chains, without the chains known not to be supported by Stavax Account.
+     */
+    get chains(): Chain[] {
+        const chains = [...(this.context.getWagmiConfig()?.chains || this.connectorChains || [])];
+        for (const parameter of this.addedChains()) {
+            const id = Number(parameter.chainId);
+            if (!chains.some(chain => chain.id === id)) {
+                chains.push(toChain(parameter));
+            }
+        }
+
+        return chains.filter(chain => this.isSupportedByStavax(chain.id));
+    }
+
+    get(chainId: number): Chain | undefined {
+        return this.chains.find(chain => chain.id === chainId);
+    }
+
+    has(chainId: number): boolean {
+        return !!this.get(chainId);
+    }
+
+    /**
+     * First chain of the registry, or of Stavax Account when the app has no chains, or Ethereum mainnet.
+     */
+    get defaultChainId(): number {
+        const [chain] = this.chains;
+        if (chain) {
+            return chain.id;
+        }
+
+        const [supported] = this.supportedChainIds || [];
+        return supported ?? defaultChainId;
+    }
+
+    /**
+     * Validates the chain and adds it to the registry, the added chains are persisted in the SDK storage.
+     * Chains of the wagmi config are left as they are.
+     *
+     * @param {AddEthereumChainParameter} parameter - EIP-3085 chain parameter.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<Chain>} A promise that resolves with the chain.
+     * @throws {StavaxError} Throws an error with code `INVALID_PARAMETER` if the parameter is invalid.
+     * @throws {ChainNotSupportedError} Throws an error if Stavax Account does not support the chain.
+     */
+    async add(parameter: AddEthereumChainParameter, options?: RequestOptions): Promise<Chain> {
+        validateAddEthereumChainParameter(parameter);
+
+        const chainId = Number(parameter.chainId);
+        await this.load(options);
+        if (!this.isSupportedByStavax(chainId)) {
+            throw new ChainNotSupportedError(chainId, `chain ${chainId} is not supported by Stavax Account`);
+        }
+
+        const existing = this.get(chainId);
+        if (existing) {
+            return existing;
+        }
+
+        const added = this.addedChains().filter(chain => Number(chain.chainId) !== chainId);
+        this.context.storage.set(storageKeys.evmChains, JSON.stringify([...added, parameter]));
+        this.clients.delete(chainId);
+
+        return toChain(parameter);
+    }
+
+    /**
+     * Returns a public client for a chain of the connector, using its transport,
+     * or for a chain added with `wallet_addEthereumChain`, using its first RPC URL.
+     */
+    getPublicClient(chainId: number): Client | undefined {
+        let client = this.clients.get(chainId);
+        if (client) {
+            return client;
+        }
+
+        const connectorChain = this.connectorChains?.find(chain => chain.id === chainId);
+        const transport = this.connectorTransports?.[chainId];
+        if (connectorChain && transport) {
+            client = createPublicClient({chain: connectorChain, transport});
+            this.clients.set(chainId, client);
+            return client;
+        }
+
+        const parameter = this.addedChains().find(chain => Number(chain.chainId) === chainId);
+        if (!parameter) {
+            return undefined;
+        }
+
+        const chain = toChain(parameter);
+        client = createPublicClient({chain, transport: http(parameter.rpcUrls[0])});
+        this.clients.set(chainId, client);
+        return client;
+    }
+
+    private isSupportedByStavax(chainId: number): boolean {
+        return !this.supportedChainIds || this.supportedChainIds.has(chainId);
+    }
+
+    private addedChains(): AddEthereumChainParameter[] {
+        try {
+            const chains = JSON.parse(this.context.storage.get(storageKeys.evmChains) || '[]');
+            return Array.isArray(chains) ? chains : [];
+        } catch (_) {
+            return [];
+        }
+    }
+}
+
+function toChain(parameter: AddEthereumChainParameter): Chain {
+    const [explorer] = parameter.blockExplorerUrls || [];
+    return defineChain({
+        id            : Number(parameter.chainId),
+        name          : parameter.chainName,
+        nativeCurrency: parameter.nativeCurrency!,
+        rpcUrls       : {default: {http: parameter.rpcUrls}},
+        blockExplorers: explorer ? {default: {name: parameter.chainName, url: explorer}} : undefined,
+    });
+}
+
+function isSecureURL(value: unknown): boolean {
+    try {
+        const url = new URL(value as string);
+        return url.protocol == 'https:' || (url.protocol == 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+    } catch (_) {
+        return false;
+    }
+}
+
+/**
+ * Validates an EIP-3085 `wallet_addEthereumChain` parameter.
+ *
+ * @throws {StavaxError} Throws an error with code `INVALID_PARAMETER` describing the first invalid field.
+ */
+export function validateAddEthereumChainParameter(parameter: AddEthereumChainParameter) {
+    const invalid = (message: string) => new StavaxError(StavaxErrorCode.invalidParameter, message);
+
+    if (!parameter || typeof parameter !== 'object') {
+        throw invalid('expected a chain parameter object');
+    }
+
+    const {chainId, chainName, nativeCurrency, rpcUrls, blockExplorerUrls} = parameter;
+    if (typeof chainId !== 'string' || !/^0x[1-9a-f][0-9a-f]*$/i.test(chainId) || Number(chainId) > Number.MAX_SAFE_INTEGER) {
+        throw invalid(`invalid chainId ${chainId}, expected a hex string without leading zeros`);
+    }
+    if (typeof chainName !== 'string' || !chainName.trim()) {
+        throw invalid('chainName is required');
+    }
+    if (!nativeCurrency || typeof nativeCurrency.name !== 'string' || typeof nativeCurrency.symbol !== 'string') {
+        throw invalid('nativeCurrency with a name and a symbol is required');
+    }
+    if (nativeCurrency.symbol.length < 2 || nativeCurrency.symbol.length > 6) {
+        throw invalid('nativeCurrency.symbol must be 2 to 6 characters');
+    }
+    if (nativeCurrency.decimals !== 18) {
+        throw invalid('nativeCurrency.decimals must be 18');
+    }
+    if (!Array.isArray(rpcUrls) || !rpcUrls.length || !rpcUrls.every(isSecureURL)) {
+        throw invalid('rpcUrls must contain at least one https URL');
+    }
+    if (blockExplorerUrls != null && (!Array.isArray(blockExplorerUrls) || !blockExplorerUrls.every(isSecureURL))) {
+        throw invalid('blockExplorerUrls must contain https URLs');
+    }
+}
@@ -0,0 +1,30 @@
+import {afterEach, describe, expect, it}          from 'vitest';
+import {InjectedChannel, injectedProtocolVersion} from './channel.js';
+import {createLogger}                             from './logger.js';
+import {defaultHostURL, FakeInjectedHost}         from './testing/index.js';
+
+const log = createLogger({});
+let host: FakeInjectedHost | undefined;
+
+afterEach(() => {
+    host?.uninstall();
+    host = undefined;
+});
+
+describe('InjectedChannel', () => {
+    it('detects hosts answering the handshake', async () => {
+        host = new FakeInjectedHost().install();
+        const channel = new InjectedChannel(defaultHostURL, log);
+
+        await expect(channel.probe()).resolves.toBe(true);
+        await expect(channel.connect()).resolves.toBe(injectedProtocolVersion);
+    });
+
+    it('does not detect a host after falling back to the legacy protocol', async () => {
+        host = new FakeInjectedHost({protocolVersion: 0}).install();
+        const channel = new InjectedChannel(defaultHostURL, log, true);
+
+        await expect(channel.connect()).resolves.toBe(0);
+        await expect(channel.probe()).resolves.toBe(false);
+    }, 10_000);
+});
@@ -0,0 +1,176 @@
+import {fromProviderRequestError, RequestTimeoutError, StavaxError, StavaxErrorCode} from './errors.js';
+import type {Logger}                                                                 from './logger.js';
+import {withTimeout}                                                                 from './request.js';
+import {isBrowser, randomString}                                                     from './utils.js';
+
+/**
+ * Version of the injected provider protocol spoken by this SDK.
+ * Hosts that do not answer the handshake speak the legacy protocol, version 0, only used with `legacyInjectedProtocol`.
+ */
+export const injectedProtocolVersion = 1;
+export const legacyInjectedProtocolVersion = 0;
+
+const handshakeTimeout = 3_000;
+
+/**
+ * Returns the origin of the URL, or undefined if it is not a valid absolute URL.
+ */
+export function originOf(url?: string | null): string | undefined {
+    if (!url) return undefined;
+    try {
+        const {origin} = new URL(url);
+        return origin == 'null' ? undefined : origin;
+    } catch (_) {
+        return undefined;
+    }
+}
+
+/**
+ * Whether the page is embedded in a frame whose parent is on the origin of the URL, according to `location.ancestorOrigins`.
+ * Returns undefined in a frame of a browser without `ancestorOrigins`, such as Firefox, where only the handshake can tell.
+ */
+export function isFramedBy(url?: string): boolean | undefined {
+    if (!isBrowser() || window.parent === window) {
+        return false;
+    }
+
+    const origin = originOf(url);
+    if (!origin) {
+        return false;
+    }
+
+    const ancestorOrigins = window.location.ancestorOrigins;
+    if (!ancestorOrigins) {
+        return undefined;
+    }
+    return ancestorOrigins[0] == origin;
+}
+
+interface ChannelMessage {
+    id: string;
+    from: string;
+    eventType: string;
+    nonce?: string;
+    success?: boolean;
+    eventData?: any;
+}
+
+/**
+ * postMessage channel between the SDK, running in a frame, and the Stavax host embedding it.
+ * Messages are only posted to the origin of the host and only accepted from the parent window on that origin.
+ * A handshake agrees on a nonce that every later message has to carry, and tells which protocol version the host speaks.
+ */
+export class InjectedChannel {
+    private readonly origin: string;
+    private readonly nonce = randomString(32);
+    private handshake?: Promise<number>;
+
+    /**
+     * @param {string} hostURL - URL of the Stavax host.
+     * @param {Logger} log - Logger of the StavaxAccount.
+     * @param {boolean} [allowLegacy=false] - Optional. Whether to fall back to the legacy protocol, without nonce, when the host does not answer the handshake.
+     */
+    constructor(hostURL: string, private readonly log: Logger, private readonly allowLegacy = false) {
+        const origin = originOf(hostURL);
+        if (!origin) {
+            throw new TypeError(`invalid host url ${hostURL}`);
+        }
+        this.origin = origin;
+    }
+
+    /**
+     * Performs the handshake with the host once.
+     *
+     * @return {Promise<number>} A promise that resolves with the protocol version of the host, `0` for hosts predating the handshake.
+     * @throws {StavaxError} Rejects with code `HANDSHAKE_FAILED` if the host does not answer and the legacy protocol is not allowed.
+     */
+    async connect(): Promise<number> {
+        if (!this.handshake) {
+            this.handshake = this.shake(this.allowLegacy);
+        }
+
+        return this.handshake;
+    }
+
+    /**
+     * Whether the parent window is a Stavax host answering the handshake, for browsers where the frame origin cannot be read.
+     * Hosts predating the handshake are never detected.
+     */
+    async probe(): Promise<boolean> {
+        if (!this.handshake) {
+            this.handshake = this.shake(false);
+        }
+
+        // A legacy fallback of connect resolves without an answer of the host
+        return this.handshake.then(version => version > legacyInjectedProtocolVersion, () => false);
+    }
+
+    private shake(allowLegacy: boolean): Promise<number> {
+        return this.exchange('stv_injected_handshake', {
+            protocolVersion: injectedProtocolVersion,
+            nonce          : this.nonce,
+        }, handshakeTimeout).then(
+            (data: { protocolVersion?: number }) => Number(data?.protocolVersion) || legacyInjectedProtocolVersion,
+            err => {
+                if (err instanceof RequestTimeoutError && allowLegacy) {
+                    this.log.warn('the host did not answer the handshake, using the legacy protocol without nonce', {origin: this.origin});
+                    return legacyInjectedProtocolVersion;
+                }
+                // Let the next request try again
+                this.handshake = undefined;
+                if (err instanceof RequestTimeoutError) {
+                    throw new StavaxError(StavaxErrorCode.handshakeFailed, `the host ${this.origin} did not answer the handshake within ${handshakeTimeout}ms`, {cause: err});
+                }
+                throw err;
+            },
+        );
+    }
+
+    /**
+     * Sends a provider request to the host and waits for its response.
+     *
+     * @param {any} eventData - The provider request.
+     * @param {number} timeout - Timeout in milliseconds, including the handshake.
+     * @param {AbortSignal} [signal] - Optional abort signal.
+     * @return {Promise<any>} A promise that resolves with the result reported by the host.
+     */
+    async request(eventData: any, timeout: number, signal?: AbortSignal): Promise<any> {
+        return withTimeout(async signal => {
+            const version = await this.connect();
+            return this.exchange('stv_injected_provider_request', eventData, timeout, signal, version == legacyInjectedProtocolVersion);
+        }, timeout, signal);
+    }
+
+    private exchange(eventType: string, eventData: any, timeout: number, signal?: AbortSignal, legacy = false): Promise<any> {
+        const id = randomString(32);
+        const responseType = `${eventType.replace(/_request$/, '')}_response`;
+        return withTimeout(signal => new Promise<any>((resolve, reject) => {
+            const handler = (e: MessageEvent<ChannelMessage>) => {
+                if (e.source !== window.parent || e.origin != this.origin) return;
+                if (e.data?.id !== id || e.data.from != 'stavax_account' || e.data.eventType != responseType) return;
+                // Hosts predating the handshake do not echo the nonce
+                if (!legacy && e.data.nonce !== this.nonce) return;
+
+                this.log.debug(`received ${responseType}`, {id, success: e.data.success, eventData: e.data.eventData});
+                window.removeEventListener('message', handler);
+                if (e.data.success) {
+                    return resolve(e.data.eventData);
+                }
+
+                return reject(fromProviderRequestError(e.data.eventData));
+            };
+            // The pending promise is settled by withTimeout, only the listener has to be released here
+            signal.addEventListener('abort', () => window.removeEventListener('message', handler));
+
+            window.addEventListener('message', handler);
+            this.log.debug(`posting ${eventType}`, {id, origin: this.origin, eventData});
+            window.parent.postMessage({
+                id,
+                from : 'stavax_account_sdk',
+                eventType,
+                nonce: legacy ? undefined : this.nonce,
+                eventData,
+            } satisfies ChannelMessage, this.origin);
+        }), timeout, signal);
+    }
+}
@@ -0,0 +1,136 @@
+import {ChainNotConfiguredError, createConnector}                        from '@wagmi/core';
+import {type Address, getAddress, numberToHex, SwitchChainError}         from 'viem';
+import {EthereumProvider, ProviderIcon, ProviderRDNS, StavaxConnectorID} from './adapter/evm.js';
+import {StavaxAccount}                                                   from './stavaxAccount.js';
+import type {StavaxAccountConfig}                                        from './types.js';
+
+/**
+ * Parameters of {@link stavaxConnector}, either the config of a new StavaxAccount or an existing instance.
+ */
+export type StavaxConnectorParameters = Omit<StavaxAccountConfig, 'wagmiConfig'> | { stavaxAccount: StavaxAccount };
+
+stavaxConnector.type = 'stavax' as const;
+
+/**
+ * Wagmi connector for Stavax Account, to be added to the `connectors` of `createConfig`.
+ * Inside the Stavax Browser, requests go to the host. Elsewhere, each request creates a Stavax session and opens Stavax Account Bot
+ * (or Stavax Web) for the user to confirm it.
+ *
+ * @param {StavaxConnectorParameters} parameters - Config of Stavax Account, or a StavaxAccount instance.
+ */
+export function stavaxConnector(parameters: StavaxConnectorParameters) {
+    const stavaxAccount = 'stavaxAccount' in parameters ? parameters.stavaxAccount : new StavaxAccount(parameters);
+
+    let accountsChanged: ((accounts: string[]) => void) | undefined;
+    let chainChanged: ((chainId: string) => void) | undefined;
+    let disconnect: ((error?: Error) => void) | undefined;
+
+    return createConnector<EthereumProvider>(config => {
+        // The StavaxAccount only gets the chains and transports of the wagmi config through its connector
+        stavaxAccount.chains.useChains(config.chains, config.transports);
+
+        return {
+            id  : StavaxConnectorID,
+            name: 'Stavax Account',
+            icon: ProviderIcon,
+            rdns: ProviderRDNS,
+            type: stavaxConnector.type,
+
+            async connect({chainId, isReconnecting} = {}) {
+                const provider = await this.getProvider();
+
+                let accounts: readonly Address[] = [];
+                if (isReconnecting) {
+                    accounts = await this.getAccounts().catch(() => []);
+                }
+                if (!accounts.length) {
+                    const requested: string[] = await provider.request({method: 'eth_requestAccounts'});
+                    accounts = requested.map(address => getAddress(address));
+                }
+
+                if (!accountsChanged) {
+                    accountsChanged = this.onAccountsChanged.bind(this);
+                    provider.on('accountsChanged', accountsChanged);
+                }
+                if (!chainChanged) {
+                    chainChanged = this.onChainChanged.bind(this);
+                    provider.on('chainChanged', chainChanged);
+                }
+                if (!disconnect) {
+                    disconnect = this.onDisconnect.bind(this);
+                    provider.on('disconnect', disconnect);
+                }
+
+                let currentChainId = await this.getChainId();
+                if (chainId && currentChainId !== chainId) {
+                    const chain = await this.switchChain!({chainId});
+                    currentChainId = chain.id;
+                }
+
+                return {accounts, chainId: currentChainId};
+            },
+
+            async disconnect() {
+                const provider = await this.getProvider();
+                if (accountsChanged) provider.removeListener('accountsChanged', accountsChanged);
+                if (chainChanged) provider.removeListener('chainChanged', chainChanged);
+                if (disconnect) provider.removeListener('disconnect', disconnect);
+                accountsChanged = chainChanged = disconnect = undefined;
+
+                await provider.request({method: 'wallet_revokePermissions', params: [{eth_accounts: {}}]});
+            },
+
+            async getAccounts() {
+                const provider = await this.getProvider();
+                const accounts: string[] = await provider.request({method: 'eth_accounts'});
+                return accounts.map(address => getAddress(address));
+            },
+
+            async getChainId() {
+                const provider = await this.getProvider();
+                return Number(await provider.request({method: 'eth_chainId'}));
+            },
+
+            async getProvider() {
+                return stavaxAccount.getProvider();
+            },
+
+            async isAuthorized() {
+                try {
+                    // The connected account of asynchronous storages is only known once loaded
+                    await stavaxAccount.storage.ready;
+                    return (await this.getAccounts()).length > 0;
+                } catch (_) {
+                    return false;
+                }
+            },
+
+            async switchChain({chainId}) {
+                const chain = config.chains.find(c => c.id === chainId);
+                if (!chain) {
+                    throw new SwitchChainError(new ChainNotConfiguredError());
+                }
+
+                const provider = await this.getProvider();
+                await provider.request({method: 'wallet_switchEthereumChain', params: [{chainId: numberToHex(chainId)}]});
+                return chain;
+            },
+
+            onAccountsChanged(accounts) {
+                if (!accounts.length) {
+                    this.onDisconnect();
+                    return;
+                }
+                config.emitter.emit('change', {accounts: accounts.map(address => getAddress(address))});
+            },
+
+            onChainChanged(chain) {
+                config.emitter.emit('change', {chainId: Number(chain)});
+            },
+
+            onDisconnect() {
+                config.emitter.emit('disconnect');
+            },
+        };
+    });
+}
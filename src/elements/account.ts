@@ -0,0 +1,92 @@
+import {shortAddress, StavaxElement} from './base.js';
+
+/**
+ * `<stavax-account>`: the connected address and chain, with a menu to open the wallet, copy the address or disconnect.
+ * Hidden while no account is connected.
+ */
+export class StavaxAccountElement extends StavaxElement {
+    static readonly elementName = 'stavax-account';
+
+    private readonly onDocumentClick = (event: Event) => {
+        if (!event.composedPath().includes(this)) this.closeMenu();
+    };
+    private readonly onKeydown = (event: KeyboardEvent) => {
+        if (event.key == 'Escape') this.closeMenu();
+    };
+
+    constructor() {
+        super(
+            `:host{position:relative}:host(:not([connected])){display:none}.stavax-chain{font-weight:400;opacity:.8}.stavax-menu{position:absolute;top:calc(100% + .5em);right:0;z-index:10;display:flex;flex-direction:column;min-width:100%;padding:.25em;border:1px solid var(--stavax-border-color,rgba(255,255,255,.1));border-radius:var(--stavax-radius,12px);background:var(--stavax-background,#1f2937);box-shadow:0 8px 24px rgba(0,0,0,.25)}.stavax-menu button{padding:.5em .75em;border:0;border-radius:calc(var(--stavax-radius,12px) - 4px);background:none;color:var(--stavax-text,#fff);font:inherit;text-align:left;white-space:nowrap;cursor:pointer}.stavax-menu button:hover,.stavax-menu button:focus-visible{background:var(--stavax-hover,rgba(255,255,255,.08));outline:none}`,
+            `<button class="stavax-button" part="button" type="button" aria-haspopup="menu" aria-expanded="false"><span part="address"></span><span class="stavax-chain" part="chain"></span></button><div class="stavax-menu" part="menu" role="menu" hidden><button type="button" role="menuitem" data-action="open">Open wallet</button><button type="button" role="menuitem" data-action="copy">Copy address</button><button type="button" role="menuitem" data-action="disconnect">Disconnect</button></div>`,
+        );
+
+        this.element('.stavax-button').addEventListener('click', () => this.menu.hidden ? this.openMenu() : this.closeMenu());
+        this.menu.addEventListener('click', event => {
+            const action = (event.target as HTMLElement).closest('button')?.dataset.action;
+            this.closeMenu();
+            if (action == 'open') this.openWallet();
+            if (action == 'copy') this.copyAddress();
+            if (action == 'disconnect') this.disconnect();
+        });
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.closeMenu();
+    }
+
+    /**
+     * Opens Stavax Account, as the "Open wallet" item of the menu.
+     */
+    openWallet(): Promise<void> {
+        return this.run(async stavaxAccount => {
+            const result = await stavaxAccount.openTgBot();
+            if (result.error) {
+                throw result.error;
+            }
+        });
+    }
+
+    copyAddress(): Promise<void> {
+        return this.run(async () => {
+            if (this.address) {
+                await navigator.clipboard.writeText(this.address);
+            }
+        });
+    }
+
+    /**
+     * Disconnects the account and forgets its Stavax session, see `stavaxAccount.disconnect`.
+     */
+    disconnect(): Promise<void> {
+        return this.run(stavaxAccount => stavaxAccount.disconnect());
+    }
+
+    protected render() {
+        const chainId = this.account?.chainId;
+        this.element('[part=address]').textContent = this.address ? shortAddress(this.address) : '';
+        this.element('[part=chain]').textContent = this.account?.chain?.name || (chainId ? `Chain ${chainId}` : '');
+        this.element<HTMLButtonElement>('.stavax-button').disabled = this.busy;
+        if (!this.address) {
+            this.closeMenu();
+        }
+    }
+
+    private get menu(): HTMLDivElement {
+        return this.element('.stavax-menu');
+    }
+
+    private openMenu() {
+        this.menu.hidden = false;
+        this.element('.stavax-button').setAttribute('aria-expanded', 'true');
+        document.addEventListener('click', this.onDocumentClick);
+        document.addEventListener('keydown', this.onKeydown);
+    }
+
+    private closeMenu() {
+        this.menu.hidden = true;
+        this.element('.stavax-button').setAttribute('aria-expanded', 'false');
+        document.removeEventListener('click', this.onDocumentClick);
+        document.removeEventListener('keydown', this.onKeydown);
+    }
+}
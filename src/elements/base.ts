@@ -0,0 +1,145 @@
+import {getAccount, type GetAccountReturnType, watchAccount} from '@wagmi/core';
+import {ConfigError, StavaxErrorCode}                        from '../errors.js';
+import type {StavaxAccount}                                  from '../stavaxAccount.js';
+
+/**
+ * `HTMLElement` in browsers, and a placeholder where it does not exist so the elements can be imported during server-side rendering
+ */
+const ElementBase = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+let defaultStavaxAccount: StavaxAccount | undefined;
+const connectedElements = new Set<StavaxElement>();
+
+/**
+ * Sets the StavaxAccount of the elements without their own `stavaxAccount`, see `defineStavaxElements`.
+ */
+export function setDefaultStavaxAccount(stavaxAccount: StavaxAccount) {
+    defaultStavaxAccount = stavaxAccount;
+    connectedElements.forEach(element => element.refresh());
+}
+
+/**
+ * Theme of the elements, every color, radius and font can be overridden with the CSS custom properties from any ancestor.
+ */
+const baseStyle = `:host{display:inline-block;font-family:var(--stavax-font-family,inherit);font-size:var(--stavax-font-size,14px)}[hidden]{display:none!important}.stavax-button{display:inline-flex;align-items:center;gap:.5em;padding:var(--stavax-padding,.625em 1.125em);border:1px solid var(--stavax-border-color,transparent);border-radius:var(--stavax-radius,12px);background:var(--stavax-primary,#f2542d);color:var(--stavax-primary-text,#fff);font:inherit;font-weight:600;cursor:pointer;transition:opacity .2s}.stavax-button:disabled{opacity:.6;cursor:progress}.stavax-button:focus-visible{outline:2px solid var(--stavax-focus-color,var(--stavax-primary,#f2542d));outline-offset:2px}`;
+
+/**
+ * Base of the Stavax custom elements: a shadow root like the embedded drawer, the StavaxAccount the element uses,
+ * and its wagmi account, kept up to date on account and chain changes.
+ * Elements reflect the `connected` attribute while an account is connected, and `busy` while an action is running.
+ * Failures of the actions are dispatched as `stavax-error` events with the error as detail.
+ */
+export abstract class StavaxElement extends ElementBase {
+    protected readonly root: ShadowRoot;
+    protected account?: GetAccountReturnType;
+    protected busy = false;
+    private _stavaxAccount?: StavaxAccount;
+    private unwatch?: () => void;
+
+    protected constructor(style: string, html: string) {
+        super();
+        this.root = this.attachShadow({mode: 'open'});
+
+        const template = document.createElement('template');
+        template.innerHTML = `<style>${baseStyle}${style}</style>${html.trim()}`;
+        this.root.appendChild(template.content);
+    }
+
+    /**
+     * StavaxAccount used by the element, default is the one given to `defineStavaxElements`.
+     */
+    get stavaxAccount(): StavaxAccount | undefined {
+        return this._stavaxAccount || defaultStavaxAccount;
+    }
+
+    set stavaxAccount(stavaxAccount: StavaxAccount | undefined) {
+        this._stavaxAccount = stavaxAccount;
+        if (this.isConnected) {
+            this.refresh();
+        }
+    }
+
+    connectedCallback() {
+        connectedElements.add(this);
+        this.refresh();
+    }
+
+    disconnectedCallback() {
+        connectedElements.delete(this);
+        this.unwatch?.();
+        this.unwatch = undefined;
+    }
+
+    /**
+     * Watches the wagmi account again, e.g. once `setWagmiConfig` is called on the StavaxAccount after the element was added.
+     */
+    refresh() {
+        this.unwatch?.();
+        this.unwatch = undefined;
+
+        const config = this.stavaxAccount?.wagmiConfig;
+        this.account = config && getAccount(config);
+        if (config) {
+            this.unwatch = watchAccount(config, {
+                onChange: account => {
+                    this.account = account;
+                    this.update();
+                },
+            });
+        }
+        this.update();
+    }
+
+    protected get address(): string | undefined {
+        return this.account?.address;
+    }
+
+    protected update() {
+        this.toggleAttribute('connected', !!this.address);
+        this.toggleAttribute('busy', this.busy);
+        this.render();
+    }
+
+    protected abstract render(): void;
+
+    protected element<E extends Element>(selector: string): E {
+        return this.root.querySelector(selector) as E;
+    }
+
+    /**
+     * Runs an action of the element with its StavaxAccount, ignoring clicks while it runs.
+     */
+    protected async run(action: (stavaxAccount: StavaxAccount) => Promise<void>) {
+        const stavaxAccount = this.stavaxAccount;
+        if (!stavaxAccount) {
+            this.fail(new ConfigError(StavaxErrorCode.invalidConfig, `missing StavaxAccount of <${this.localName}>, call defineStavaxElements first`));
+            return;
+        }
+        if (this.busy) {
+            return;
+        }
+
+        this.busy = true;
+        this.update();
+        try {
+            await action(stavaxAccount);
+        } catch (err) {
+            this.fail(err);
+        } finally {
+            this.busy = false;
+            this.update();
+        }
+    }
+
+    protected emit(type: string, detail?: unknown) {
+        this.dispatchEvent(new CustomEvent(type, {detail, bubbles: true, composed: true}));
+    }
+
+    private fail(error: unknown) {
+        this.emit('stavax-error', error);
+    }
+}
+
+export function shortAddress(address: string): string {
+    return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
@@ -0,0 +1,41 @@
+import {StavaxElement} from './base.js';
+
+/**
+ * `<stavax-connect-button>`: connects Stavax Account with `wagmiConnect`, and is hidden once an account is connected.
+ * The `label` attribute replaces the text of the button. Dispatches `stavax-connect` with the wagmi connect data.
+ */
+export class StavaxConnectButton extends StavaxElement {
+    static readonly elementName = 'stavax-connect-button';
+
+    static get observedAttributes() {
+        return ['label'];
+    }
+
+    constructor() {
+        super(
+            `:host([connected]){display:none}`,
+            `<button class="stavax-button" part="button" type="button"></button>`,
+        );
+        this.element('button').addEventListener('click', () => this.connect());
+    }
+
+    attributeChangedCallback() {
+        this.render();
+    }
+
+    /**
+     * Connects Stavax Account, as a click on the button.
+     */
+    connect(): Promise<void> {
+        return this.run(async stavaxAccount => {
+            const data = await stavaxAccount.wagmiConnect();
+            this.emit('stavax-connect', data);
+        });
+    }
+
+    protected render() {
+        const button = this.element<HTMLButtonElement>('button');
+        button.disabled = this.busy;
+        button.textContent = this.busy ? 'Connecting…' : this.getAttribute('label') || 'Connect Stavax Account';
+    }
+}
@@ -0,0 +1,50 @@
+import {botRoutes}          from '../routes.js';
+import type {BotRouteToken} from '../types.js';
+import {StavaxElement}      from './base.js';
+
+/**
+ * `<stavax-deposit-button>`: opens the deposit screen of Stavax Account.
+ * The `chain-id`, `token` and `amount` attributes prefill the screen, `chain-id` defaults to the chain of the connected account.
+ * The `label` attribute replaces the text of the button.
+ */
+export class StavaxDepositButton extends StavaxElement {
+    static readonly elementName = 'stavax-deposit-button';
+
+    static get observedAttributes() {
+        return ['label', 'chain-id', 'token', 'amount'];
+    }
+
+    constructor() {
+        super('', `<button class="stavax-button" part="button" type="button"></button>`);
+        this.element('button').addEventListener('click', () => this.open());
+    }
+
+    attributeChangedCallback() {
+        this.render();
+    }
+
+    /**
+     * Opens the deposit screen, as a click on the button.
+     */
+    open(): Promise<void> {
+        return this.run(async stavaxAccount => {
+            const chainId = this.getAttribute('chain-id');
+            const route = botRoutes.deposit({
+                chainId: chainId ? Number(chainId) : this.account?.chainId,
+                token  : (this.getAttribute('token') || undefined) as BotRouteToken | undefined,
+                amount : this.getAttribute('amount') || undefined,
+            });
+
+            const result = await stavaxAccount.openTgBotScreen(route);
+            if (result.error) {
+                throw result.error;
+            }
+        });
+    }
+
+    protected render() {
+        const button = this.element<HTMLButtonElement>('button');
+        button.disabled = this.busy;
+        button.textContent = this.getAttribute('label') || 'Deposit';
+    }
+}
@@ -0,0 +1,36 @@
+import type {StavaxAccount}                     from '../stavaxAccount.js';
+import {StavaxAccountElement}                   from './account.js';
+import {setDefaultStavaxAccount, StavaxElement} from './base.js';
+import {StavaxConnectButton}                    from './connectButton.js';
+import {StavaxDepositButton}                    from './depositButton.js';
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'stavax-connect-button': StavaxConnectButton;
+        'stavax-account': StavaxAccountElement;
+        'stavax-deposit-button': StavaxDepositButton;
+    }
+}
+
+export {StavaxAccountElement, StavaxConnectButton, StavaxDepositButton, StavaxElement};
+
+/**
+ * Registers `<stavax-connect-button>`, `<stavax-account>` and `<stavax-deposit-button>` once.
+ * Does nothing but set the StavaxAccount outside a browser, e.g. during server-side rendering.
+ *
+ * @param {StavaxAccount} [stavaxAccount] - Optional. StavaxAccount of the elements without their own `stavaxAccount` property.
+ */
+export function defineStavaxElements(stavaxAccount?: StavaxAccount) {
+    if (stavaxAccount) {
+        setDefaultStavaxAccount(stavaxAccount);
+    }
+    if (typeof customElements === 'undefined') {
+        return;
+    }
+
+    for (const element of [StavaxConnectButton, StavaxAccountElement, StavaxDepositButton]) {
+        if (!customElements.get(element.elementName)) {
+            customElements.define(element.elementName, element);
+        }
+    }
+}
@@ -1,81 +1,514 @@
-import {telegramCheck} from './telegram.js';
-import type {StavaxAccountConfig}        from './types.js';
+import {originOf}                                       from './channel.js';
+import {DrawerLoadError, DrawerLoadFailure}             from './errors.js';
+import {createLogger, type Logger}                      from './logger.js';
+import {getTelegramTheme, telegramCheck, watchTelegram} from './telegram.js';
+import {DrawerCloseReason, type StavaxAccountConfig}    from './types.js';
 
+/**
+ * Events of the drawer, `open` when it opens and `close` with the reason when it closes,
+ * `ready` once Stavax Account is loaded in it and `error` when it does not load in time.
+ */
+export interface DrawerEvents {
+    open: () => void;
+    close: (reason: DrawerCloseReason) => void;
+    ready: () => void;
+    error: (error: DrawerLoadError) => void;
+}
+
+const defaultLoadTimeout = 15_000;
+
+/**
+ * Colors of the drawer missing from the Telegram and custom themes, by color scheme
+ */
+const schemeColors = {
+    dark : {background: '#1f2937', text: '#fff', hint: 'rgba(255,255,255,.3)', overlay: 'rgba(0,0,0,.8)'},
+    light: {background: '#fff', text: '#000', hint: 'rgba(0,0,0,.2)', overlay: 'rgba(0,0,0,.4)'},
+};
+
+/**
+ * Downward speed, in pixels per millisecond, projected over this duration to find where a released drag goes
+ */
+const dragProjection = 200;
+
+/**
+ * Drawer of the embedded mode, showing Stavax Account in an iframe. Each StavaxAccount has its own drawer.
+ * It is a modal dialog: focus stays in it and the page does not scroll while it is open.
+ */
 export class Drawer {
-    private static _instance: Drawer;
     private isOpen: boolean = false;
     private iframeReady: boolean = false;
+    private destroyed: boolean = false;
     private readonly config: StavaxAccountConfig;
+    private readonly log: Logger;
+    private readonly _events = new Map<keyof DrawerEvents, Set<Function>>();
+    private readonly snapPoints: number[];
+    private readonly dismissible: boolean;
+    private readonly loadTimeout: number;
+    /**
+     * URL loaded in the iframe
+     */
+    private url?: string;
+    private loadTimer?: ReturnType<typeof setTimeout>;
+    /**
+     * Openings waiting for Stavax Account to be ready
+     */
+    private waiters: { resolve: () => void; reject: (err: DrawerLoadError) => void }[] = [];
+    private snapIndex = 0;
+    private drag?: { pointerId: number; startY: number; startOffset: number; lastY: number; lastTime: number; velocity: number };
+    private previousFocus?: HTMLElement;
+    private previousOverflow?: string;
+    private readonly shadowHost: HTMLDivElement;
     private readonly drawerRoot: HTMLDivElement;
     private readonly drawerOverlay: HTMLDivElement;
+    private readonly messageListener = (message: MessageEvent) => this.onWindowMessage(message);
+    private readonly unwatchTelegram: () => void;
+    private readonly keydownListener = (event: KeyboardEvent) => {
+        if (event.key == 'Escape' && this.dismissible) this.close(DrawerCloseReason.escape);
+    };
+    private readonly focusListener = (event: FocusEvent) => {
+        // Focus leaving the dialog, e.g. tabbing out of the iframe, is brought back
+        if (!event.composedPath().includes(this.drawerRoot)) this.drawerRoot.focus();
+    };
 
     constructor(config: StavaxAccountConfig) {
         this.config = config;
-        const {drawerRoot, drawerOverlay} = this.createRoot();
+        this.log = createLogger(config);
+        const snapPoints = config.drawer?.snapPoints?.filter(point => point > 0).sort((a, b) => a - b);
+        this.snapPoints = snapPoints?.length ? snapPoints : [1];
+        this.dismissible = config.drawer?.dismissible ?? true;
+        this.loadTimeout = config.drawer?.loadTimeout || defaultLoadTimeout;
+
+        const {shadowHost, drawerRoot, drawerOverlay} = this.createRoot();
+        this.shadowHost = shadowHost;
         this.drawerRoot = drawerRoot;
         this.drawerOverlay = drawerOverlay;
+        this.render();
+        this.applyTheme();
+        this.unwatchTelegram = watchTelegram(() => this.onThemeChanged(), isStateStable => this.postViewport(isStateStable));
+
+        window.addEventListener('message', this.messageListener);
+        drawerOverlay.addEventListener('click', () => {
+            if (this.dismissible) this.close(DrawerCloseReason.overlay);
+        });
+        const handle = drawerRoot.querySelector<HTMLElement>('.stavax-handle');
+        if (handle) {
+            this.setupDrag(handle);
+        }
+        this.status.addEventListener('click', event => {
+            const action = (event.target as HTMLElement).closest('button')?.dataset.action;
+            if (action == 'retry' && this.url) this.load(this.url);
+            if (action == 'close') this.close();
+        });
+    }
 
-        window.addEventListener('message', this.onWindowMessage.bind(this));
+    on<E extends keyof DrawerEvents>(event: E, cb: DrawerEvents[E]) {
+        const set = this._events.get(event);
+        if (!set) this._events.set(event, new Set([cb]));
+        else set.add(cb);
     }
 
-    public async openURL(url: string): Promise<void> {
-        return new Promise((resolve, _) => {
-            let iframe = this.drawerRoot.querySelector('iframe');
-            if (!iframe) {
-                iframe = this.htmlToElement(`<iframe class="stavax-iframe"></iframe>`) as HTMLIFrameElement;
-                this.drawerRoot.appendChild(iframe);
-            }
-            iframe.src = url;
+    removeListener<E extends keyof DrawerEvents>(event: E, cb: DrawerEvents[E]) {
+        this._events.get(event)?.delete(cb);
+    }
 
-            this.changeOpen(true);
+    /**
+     * Whether the drawer is open, Stavax Account may still be loading in it.
+     */
+    get opened(): boolean {
+        return this.isOpen;
+    }
+
+    /**
+     * Opens the drawer and loads Stavax Account at the URL, unless it is already loaded or loading there.
+     * While it loads the drawer shows a loading state, and an error with a retry button if it does not load within `loadTimeout`.
+     *
+     * @param {string} url - URL of Stavax Account.
+     * @return {Promise<void>} A promise that resolves once Stavax Account is ready.
+     * @throws {DrawerLoadError} Rejects if Stavax Account does not load in time, or the drawer is closed or destroyed before.
+     */
+    public openURL(url: string): Promise<void> {
+        if (this.destroyed) {
+            return Promise.reject(new DrawerLoadError(DrawerLoadFailure.destroyed));
+        }
 
-            if (this.iframeReady) {
+        return new Promise((resolve, reject) => {
+            this.changeOpen(true);
+            if (this.iframeReady && this.url == url) {
                 resolve();
                 return;
             }
 
-            const itv = setInterval(() => {
-                if (this.iframeReady) {
-                    clearInterval(itv);
-                    resolve();
-                }
-            }, 100);
+            this.waiters.push({resolve, reject});
+            if (this.url != url || !this.loadTimer) {
+                this.load(url);
+            }
         });
     }
 
+    /**
+     * Waits for Stavax Account to be ready in the open drawer, e.g. after the user retries from the error state.
+     *
+     * @return {Promise<void>} A promise that resolves once Stavax Account is ready.
+     * @throws {DrawerLoadError} Rejects if a retry does not load in time, or the drawer is closed or destroyed before.
+     */
+    public waitReady(): Promise<void> {
+        if (this.destroyed || !this.isOpen) {
+            return Promise.reject(new DrawerLoadError(this.destroyed ? DrawerLoadFailure.destroyed : DrawerLoadFailure.closed));
+        }
+        if (this.iframeReady) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => this.waiters.push({resolve, reject}));
+    }
+
+    /**
+     * Shows a link in the error state of the drawer, e.g. to open Stavax Account in a new tab, until Stavax Account is loaded again.
+     */
+    public showFallbackLink(label: string, href: string) {
+        const link = this.status.querySelector('a')!;
+        link.textContent = label;
+        link.href = href;
+        link.hidden = false;
+    }
+
     public postMessage(message: any) {
+        this.log.debug(`posting ${message?.eventType} to the drawer`, {eventData: message?.eventData});
         const iframe = this.drawerRoot.querySelector('iframe');
-        iframe?.contentWindow?.postMessage(message, this.config.webURL!);
+        iframe?.contentWindow?.postMessage(message, originOf(this.config.webURL)!);
     }
 
-    public close() {
-        this.changeOpen(false);
+    /**
+     * Whether the drawer is open and Stavax Account is loaded in it.
+     */
+    get ready(): boolean {
+        return this.isOpen && this.iframeReady;
     }
 
-    private changeOpen(state: boolean) {
+    /**
+     * Navigates the loaded Stavax Account to a screen, see `buildBotHref`.
+     */
+    public navigate(href: string) {
+        this.postMessage({
+            from     : 'stavax_account_sdk',
+            eventType: 'stv_navigate',
+            eventData: {href},
+        });
+    }
+
+    /**
+     * Closes the drawer, Stavax Account stays loaded in it.
+     *
+     * @param {DrawerCloseReason} [reason] - Optional. Reason given to the `close` listeners. Default is `api`.
+     */
+    public close(reason: DrawerCloseReason = DrawerCloseReason.api) {
+        this.changeOpen(false, reason);
+    }
+
+    /**
+     * Moves the open drawer to one of the `snapPoints` of the config.
+     *
+     * @param {number} index - Index of the snap point, smallest first.
+     */
+    public snapTo(index: number) {
+        this.snapIndex = Math.min(Math.max(index, 0), this.snapPoints.length - 1);
+        this.render();
+        this.postViewport();
+    }
+
+    /**
+     * Removes the drawer from the page and stops listening to Stavax Account, pending openings are rejected.
+     */
+    public destroy() {
+        if (this.destroyed) {
+            return;
+        }
+
+        if (this.isOpen) {
+            this.release();
+        }
+        this.settle(new DrawerLoadError(DrawerLoadFailure.destroyed));
+        this.destroyed = true;
+        this.isOpen = this.iframeReady = false;
+        this._events.clear();
+        this.unwatchTelegram();
+        window.removeEventListener('message', this.messageListener);
+        this.shadowHost.remove();
+    }
+
+    private changeOpen(state: boolean, reason: DrawerCloseReason = DrawerCloseReason.api) {
+        if (state == this.isOpen) {
+            return;
+        }
+
         this.isOpen = state;
-        this.drawerRoot.setAttribute('data-state', this.isOpen ? 'open' : 'closed');
-        this.drawerOverlay.setAttribute('data-state', this.isOpen ? 'open' : 'closed');
+        this.drag = undefined;
+        this.snapIndex = 0;
+        this.render();
+        if (state) {
+            this.capture();
+            this.postViewport();
+        } else {
+            this.release();
+            this.settle(new DrawerLoadError(DrawerLoadFailure.closed));
+        }
+
+        this.log.debug(state ? 'drawer opened' : `drawer closed by ${reason}`);
+        if (state) {
+            this._events.get('open')?.forEach(cb => cb());
+        } else {
+            this._events.get('close')?.forEach(cb => cb(reason));
+        }
+    }
+
+    /**
+     * Loads Stavax Account in a new iframe, since navigating the iframe to the same URL would not reload it.
+     */
+    private load(url: string) {
+        this.drawerRoot.querySelector('iframe')?.remove();
+        const iframe = this.htmlToElement(`<iframe class="stavax-iframe" title="Stavax Account"></iframe>`) as HTMLIFrameElement;
+        iframe.src = url;
+        this.drawerRoot.appendChild(iframe);
+
+        this.url = url;
+        this.iframeReady = false;
+        this.setStatus('loading');
+        clearTimeout(this.loadTimer);
+        this.loadTimer = setTimeout(() => {
+            const error = new DrawerLoadError(DrawerLoadFailure.timeout, `Stavax Account did not load in the drawer within ${this.loadTimeout}ms`);
+            this.log.warn(error.message, {url});
+            this.setStatus('error');
+            this.settle(error);
+            this._events.get('error')?.forEach(cb => cb(error));
+        }, this.loadTimeout);
+    }
+
+    private onReady() {
+        this.iframeReady = true;
+        this.setStatus(undefined);
+        this.postTheme();
+        this.postViewport();
+        this.settle();
+        this._events.get('ready')?.forEach(cb => cb());
+    }
+
+    /**
+     * Stops the load timer and resolves the pending openings, or rejects them with the error.
+     */
+    private settle(error?: DrawerLoadError) {
+        clearTimeout(this.loadTimer);
+        this.loadTimer = undefined;
+
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(waiter => error ? waiter.reject(error) : waiter.resolve());
+    }
+
+    private onThemeChanged() {
+        this.applyTheme();
+        this.postTheme();
+    }
+
+    /**
+     * Colors the drawer with the Telegram theme and the `theme` of the drawer options.
+     */
+    private applyTheme() {
+        const {colorScheme, themeParams} = getTelegramTheme(this.config.drawer?.theme);
+        const defaults = schemeColors[colorScheme];
+        const colors: Record<string, string | undefined> = {
+            'background' : themeParams.bg_color || defaults.background,
+            'text'       : themeParams.text_color || defaults.text,
+            'hint'       : themeParams.hint_color || defaults.hint,
+            'overlay'    : this.config.drawer?.theme?.overlayColor || defaults.overlay,
+            'button'     : themeParams.button_color,
+            'button-text': themeParams.button_text_color,
+        };
+
+        const style = this.shadowHost.style;
+        Object.entries(colors).forEach(([name, color]) => {
+            const property = `--stavax-drawer-${name}`;
+            if (color) style.setProperty(property, color);
+            else style.removeProperty(property);
+        });
+        this.drawerRoot.style.colorScheme = colorScheme;
+    }
+
+    /**
+     * Sends the theme to Stavax Account, as Telegram does with `theme_changed`.
+     */
+    private postTheme() {
+        if (!this.iframeReady) {
+            return;
+        }
+
+        const {colorScheme, themeParams} = getTelegramTheme(this.config.drawer?.theme);
+        this.postMessage({
+            from     : 'stavax_account_sdk',
+            eventType: 'theme_changed',
+            eventData: {theme_params: themeParams, color_scheme: colorScheme},
+        });
+    }
+
+    /**
+     * Sends the viewport to Stavax Account, as Telegram does with `viewport_changed`.
+     * Its viewport is the visible part of the iframe, expanded at the largest snap point.
+     */
+    private postViewport(isStateStable: boolean = true) {
+        const iframe = this.drawerRoot.querySelector('iframe');
+        if (!this.iframeReady || !iframe) {
+            return;
+        }
+
+        const viewportHeight = telegramCheck(() => Telegram.WebApp.viewportHeight, 0) || window.innerHeight;
+        const handleHeight = this.drawerRoot.clientHeight - iframe.clientHeight;
+        const height = Math.min(this.snapHeight(this.snapPoints[this.snapIndex]!), viewportHeight) - handleHeight;
+        this.postMessage({
+            from     : 'stavax_account_sdk',
+            eventType: 'viewport_changed',
+            eventData: {
+                height         : Math.max(height, 0),
+                is_state_stable: isStateStable,
+                is_expanded    : this.snapIndex == this.snapPoints.length - 1,
+            },
+        });
+    }
+
+    private get status(): HTMLDivElement {
+        return this.drawerRoot.querySelector('.stavax-status')!;
+    }
+
+    private setStatus(status: 'loading' | 'error' | undefined) {
+        const element = this.status;
+        element.hidden = !status;
+        element.setAttribute('data-status', status || 'ready');
+        element.querySelector('p')!.textContent = status == 'error' ? 'Stavax Account could not be loaded.' : 'Loading Stavax Account…';
+        if (status != 'error') {
+            element.querySelector('a')!.hidden = true;
+        }
+    }
+
+    private render() {
+        const state = this.isOpen ? 'open' : 'closed';
+        this.drawerRoot.setAttribute('data-state', state);
+        this.drawerOverlay.setAttribute('data-state', state);
         this.drawerOverlay.style.display = this.isOpen ? 'block' : 'none';
 
         this.drawerRoot.setAttribute('stavax-drawer-visible', this.isOpen ? 'true' : 'false');
         this.drawerOverlay.setAttribute('stavax-drawer-visible', this.isOpen ? 'true' : 'false');
+        this.drawerRoot.setAttribute('aria-hidden', this.isOpen ? 'false' : 'true');
+        this.drawerRoot.toggleAttribute('inert', !this.isOpen);
+
+        // The overlay fades out below the largest snap point
+        const snapped = this.snapIndex == this.snapPoints.length - 1;
+        this.drawerOverlay.setAttribute('stavax-snap-points', this.snapPoints.length > 1 ? 'true' : 'false');
+        this.drawerOverlay.setAttribute('stavax-snap-points-overlay', snapped ? 'true' : 'false');
+        this.drawerRoot.style.setProperty('--snap-point-height', this.snapOffset(this.snapPoints[this.snapIndex]!));
+    }
+
+    /**
+     * Hidden part of the drawer at the snap point, the drawer being as tall as the viewport
+     */
+    private snapOffset(point: number): string {
+        return point <= 1 ? `${(1 - point) * 100}dvh` : `max(0px, calc(100dvh - ${point}px))`;
+    }
+
+    /**
+     * Moves the focus into the drawer and locks the scroll of the page.
+     */
+    private capture() {
+        this.previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : undefined;
+        this.previousOverflow = document.body.style.overflow;
+        document.body.style.overflow = 'hidden';
+        document.addEventListener('keydown', this.keydownListener);
+        document.addEventListener('focusin', this.focusListener);
+        this.drawerRoot.focus({preventScroll: true});
+    }
+
+    private release() {
+        document.removeEventListener('keydown', this.keydownListener);
+        document.removeEventListener('focusin', this.focusListener);
+        document.body.style.overflow = this.previousOverflow ?? '';
+        this.previousOverflow = undefined;
+        this.previousFocus?.focus({preventScroll: true});
+        this.previousFocus = undefined;
+    }
+
+    /**
+     * Drags the drawer by its handle between the snap points, and closes it when released below the smallest one.
+     * The iframe does not report its pointer events, so only the handle can be dragged.
+     */
+    private setupDrag(handle: HTMLElement) {
+        handle.addEventListener('pointerdown', event => {
+            if (!this.isOpen || this.drag) return;
+
+            handle.setPointerCapture(event.pointerId);
+            const startOffset = this.drawerRoot.getBoundingClientRect().top;
+            this.drag = {pointerId: event.pointerId, startY: event.clientY, startOffset, lastY: event.clientY, lastTime: event.timeStamp, velocity: 0};
+            this.drawerRoot.setAttribute('stavax-dragging', 'true');
+        });
+
+        handle.addEventListener('pointermove', event => {
+            const drag = this.drag;
+            if (drag?.pointerId !== event.pointerId) return;
+
+            const elapsed = event.timeStamp - drag.lastTime;
+            if (elapsed > 0) drag.velocity = (event.clientY - drag.lastY) / elapsed;
+            drag.lastY = event.clientY;
+            drag.lastTime = event.timeStamp;
+
+            // Dragging above the largest snap point is damped
+            let offset = drag.startOffset + event.clientY - drag.startY;
+            const top = window.innerHeight - this.snapHeight(this.snapPoints.at(-1)!);
+            if (offset < top) offset = top - Math.sqrt(top - offset);
+            this.drawerRoot.style.setProperty('--snap-point-height', `${Math.max(offset, 0)}px`);
+        });
+
+        const end = (event: PointerEvent) => {
+            const drag = this.drag;
+            if (drag?.pointerId !== event.pointerId) return;
+
+            this.drag = undefined;
+            this.drawerRoot.removeAttribute('stavax-dragging');
+            const visible = window.innerHeight - (drag.startOffset + event.clientY - drag.startY) - drag.velocity * dragProjection;
+
+            // Closest rest among the snap points, and the closed drawer when dismissible
+            const heights = this.snapPoints.map(point => this.snapHeight(point));
+            if (this.dismissible) heights.unshift(0);
+            let index = 0;
+            heights.forEach((height, i) => {
+                if (Math.abs(height - visible) < Math.abs(heights[index]! - visible)) index = i;
+            });
+
+            if (this.dismissible && index == 0) {
+                this.close(DrawerCloseReason.drag);
+            } else {
+                this.snapTo(this.dismissible ? index - 1 : index);
+            }
+        };
+        handle.addEventListener('pointerup', end);
+        handle.addEventListener('pointercancel', end);
+    }
+
+    private snapHeight(point: number): number {
+        return Math.min(point <= 1 ? point * window.innerHeight : point, window.innerHeight);
     }
 
     private onWindowMessage(message: MessageEvent<{
         from: string,
         eventType?: string,
-        method: string,
+        method: unknown,
         params: any[]
-    }>) {
-        if (message.origin != this.config.webURL) {
+    } | null>) {
+        if (message.origin != originOf(this.config.webURL) || message.source !== this.drawerRoot.querySelector('iframe')?.contentWindow) {
             return;
         }
         let {data} = message;
 
-        if (data.from != 'stavax_account') {
+        // Other scripts of the page may post anything
+        if (data?.from != 'stavax_account' || typeof data.method != 'string') {
             return;
         }
+        this.log.debug(`received ${data.method} from the drawer`, {params: data.params});
 
         const i = data.method.indexOf('_');
         const scope = data.method.substring(0, i);
@@ -84,7 +517,7 @@ export class Drawer {
         switch (scope) {
             case 'stv':
                 if (method == 'app_ready') {
-                    this.iframeReady = true;
+                    this.onReady();
                 }
                 break;
             case 'tgWebAppNavigation':
@@ -94,26 +527,22 @@ export class Drawer {
                 }, void 0)
             case 'tgWebApp':
                 if (method == 'close') {
-                    this.close();
+                    this.close(DrawerCloseReason.app);
                 }
         }
     }
 
-    static instance(config: StavaxAccountConfig) {
-        if (Drawer._instance) {
-            return Drawer._instance;
-        }
-
-        return Drawer._instance = new Drawer(config);
-    }
-
     private createRoot() {
         const shadowHost = document.createElement('div');
         const shadowRoot = shadowHost.attachShadow({mode: 'open'});
         const style = document.createElement('style');
-        style.textContent = `.stavax-drawer,.stavax-overlay{pointer-events:auto;position:fixed;right:0;bottom:0;left:0;z-index:50}[stavax-drawer]{touch-action:none;will-change:transform;transition:transform .5s cubic-bezier(.32, .72, 0, 1)}[stavax-drawer][stavax-drawer-direction=bottom]{transform:translate3d(0,100%,0)}[stavax-drawer][stavax-drawer-visible=true][stavax-drawer-direction=bottom]{transform:translate3d(0,var(--snap-point-height,0),0)}[stavax-overlay]{opacity:0;transition:opacity .5s cubic-bezier(.32, .72, 0, 1)}[stavax-overlay][stavax-drawer-visible=true],[stavax-overlay][stavax-snap-points-overlay=true]:not([stavax-drawer-visible=false]){opacity:1}[stavax-drawer]::after{content:'';position:absolute;background:inherit;background-color:inherit}[stavax-drawer][stavax-drawer-direction=bottom]::after{top:100%;bottom:initial;left:0;right:0;height:200%}[stavax-overlay][stavax-snap-points=true]:not([stavax-snap-points-overlay=true]):not([data-state=closed]){opacity:0}.stavax-drawer{overflow:hidden;background-color:#1f2937;border:none;margin-top:6rem;display:flex;flex-direction:column;height:auto}.stavax-overlay{top:0;background-color:rgba(0,0,0,.8)}.stavax-iframe{height:100dvh;border:0}`;
+        style.textContent = `.stavax-drawer,.stavax-overlay{pointer-events:auto;position:fixed;right:0;bottom:0;left:0;z-index:50}[stavax-drawer]{touch-action:none;will-change:transform;transition:transform .5s cubic-bezier(.32, .72, 0, 1)}[stavax-drawer][stavax-drawer-direction=bottom]{transform:translate3d(0,100%,0)}[stavax-drawer][stavax-drawer-visible=true][stavax-drawer-direction=bottom]{transform:translate3d(0,var(--snap-point-height,0),0)}[stavax-overlay]{opacity:0;transition:opacity .5s cubic-bezier(.32, .72, 0, 1)}[stavax-overlay][stavax-drawer-visible=true],[stavax-overlay][stavax-snap-points-overlay=true]:not([stavax-drawer-visible=false]){opacity:1}[stavax-drawer]::after{content:'';position:absolute;background:inherit;background-color:inherit}[stavax-drawer][stavax-drawer-direction=bottom]::after{top:100%;bottom:initial;left:0;right:0;height:200%}[stavax-overlay][stavax-snap-points=true]:not([stavax-snap-points-overlay=true]):not([data-state=closed]){opacity:0}.stavax-drawer{overflow:hidden;background-color:var(--stavax-drawer-background,#1f2937);border:none;margin-top:6rem;display:flex;flex-direction:column;box-sizing:border-box;height:100dvh;padding-bottom:env(safe-area-inset-bottom,0px);outline:none}.stavax-overlay{top:0;background-color:var(--stavax-drawer-overlay,rgba(0,0,0,.8))}.stavax-iframe{flex:1;min-height:0;border:0}[stavax-drawer][stavax-dragging=true]{transition:none}.stavax-handle{flex-shrink:0;display:flex;justify-content:center;padding:8px 0;cursor:grab;touch-action:none}.stavax-handle::before{content:'';width:40px;height:4px;border-radius:2px;background-color:var(--stavax-drawer-hint,rgba(255,255,255,.3))}[stavax-dragging=true] .stavax-handle{cursor:grabbing}.stavax-status{position:absolute;top:20px;right:0;bottom:0;left:0;display:flex;flex-direction:column;align-items:center;justify-content:center;gap:16px;padding:24px;background-color:var(--stavax-drawer-background,#1f2937);color:var(--stavax-drawer-text,#fff);font:14px/1.4 system-ui,sans-serif;text-align:center}.stavax-status[hidden]{display:none}.stavax-status p{margin:0}.stavax-spinner{width:28px;height:28px;border:3px solid var(--stavax-drawer-hint,rgba(255,255,255,.2));border-top-color:var(--stavax-drawer-text,#fff);border-radius:50%;animation:stavax-spin 1s linear infinite}@keyframes stavax-spin{to{transform:rotate(360deg)}}.stavax-actions{display:flex;flex-wrap:wrap;justify-content:center;gap:8px}.stavax-actions a,.stavax-actions button{padding:8px 16px;border:1px solid var(--stavax-drawer-hint,rgba(255,255,255,.2));border-radius:8px;background:var(--stavax-drawer-button,none);color:var(--stavax-drawer-button-text,inherit);font:inherit;text-decoration:none;cursor:pointer}.stavax-status[data-status=loading] .stavax-actions,.stavax-status[data-status=error] .stavax-spinner,.stavax-actions [hidden]{display:none}`;
         const drawerOverlay = this.htmlToElement(`<div class="stavax-overlay" data-state="closed" stavax-drawer-visible="false" stavax-overlay stavax-snap-points="false" stavax-snap-points-overlay="true" data-aria-hidden="true" aria-hidden="true"></div>`) as HTMLDivElement;
-        const drawerRoot = this.htmlToElement(`<div class="stavax-drawer" data-state="closed" stavax-drawer stavax-drawer-direction="bottom" stavax-drawer-visible="false" tabindex="-1"></div>`) as HTMLDivElement;
+        const drawerRoot = this.htmlToElement(`<div class="stavax-drawer" data-state="closed" stavax-drawer stavax-drawer-direction="bottom" stavax-drawer-visible="false" tabindex="-1" role="dialog" aria-modal="true" aria-label="Stavax Account"></div>`) as HTMLDivElement;
+        if (this.dismissible || this.snapPoints.length > 1) {
+            drawerRoot.appendChild(this.htmlToElement(`<div class="stavax-handle" aria-hidden="true"></div>`)!);
+        }
+        drawerRoot.appendChild(this.htmlToElement(`<div class="stavax-status" role="status" aria-live="polite" hidden><div class="stavax-spinner"></div><p></p><div class="stavax-actions"><button type="button" data-action="retry">Retry</button><a target="_blank" rel="noopener" hidden></a><button type="button" data-action="close">Close</button></div></div>`)!);
         shadowRoot.appendChild(style);
         shadowRoot.appendChild(drawerOverlay);
         shadowRoot.appendChild(drawerRoot);
@@ -0,0 +1,226 @@
+/**
+ * Stable codes of errors raised by the SDK.
+ */
+export enum StavaxErrorCode {
+    invalidConfig = 'INVALID_CONFIG',
+    missingWagmiConfig = 'MISSING_WAGMI_CONFIG',
+    missingConnector = 'MISSING_CONNECTOR',
+    invalidParameter = 'INVALID_PARAMETER',
+    apiError = 'API_ERROR',
+    networkError = 'NETWORK_ERROR',
+    timeout = 'TIMEOUT',
+    aborted = 'ABORTED',
+    userRejected = 'USER_REJECTED',
+    requestRejected = 'REQUEST_REJECTED',
+    smartSessionNotFound = 'SMART_SESSION_NOT_FOUND',
+    unsupportedEnvironment = 'UNSUPPORTED_ENVIRONMENT',
+    unsupportedChain = 'UNSUPPORTED_CHAIN',
+    drawerLoadFailed = 'DRAWER_LOAD_FAILED',
+    handshakeFailed = 'HANDSHAKE_FAILED',
+}
+
+/**
+ * EIP-1193 provider error codes, along with the JSON-RPC internal error used for unexpected failures.
+ */
+export const ProviderRpcErrorCode = {
+    userRejectedRequest: 4001,
+    unauthorized       : 4100,
+    unsupportedMethod  : 4200,
+    disconnected       : 4900,
+    chainDisconnected  : 4901,
+    unrecognizedChain  : 4902,
+    invalidParams      : -32602,
+    internalError      : -32603,
+} as const;
+
+export class StavaxError extends Error {
+    override readonly name: string = 'StavaxError';
+
+    constructor(readonly code: StavaxErrorCode, message: string, options?: ErrorOptions) {
+        super(message, options);
+    }
+}
+
+export class ConfigError extends StavaxError {
+    override readonly name = 'ConfigError';
+}
+
+/**
+ * Raised when Stavax API responds with an unsuccessful status.
+ */
+export class ApiError extends StavaxError {
+    override readonly name = 'ApiError';
+
+    constructor(readonly status: number, readonly serverMessage?: string, code: StavaxErrorCode = StavaxErrorCode.apiError) {
+        super(code, `stavax api responded with status ${status}${serverMessage ? `: ${serverMessage}` : ''}`);
+    }
+
+    static async fromResponse(res: Response, code?: StavaxErrorCode): Promise<ApiError> {
+        let serverMessage: string | undefined;
+        try {
+            const json = await res.json();
+            serverMessage = json?.message || json?.error;
+        } catch (_) {
+            // Body is not JSON, keep the status only
+        }
+
+        return new ApiError(res.status, serverMessage, code);
+    }
+}
+
+/**
+ * Raised when Stavax API cannot be reached.
+ */
+export class NetworkError extends StavaxError {
+    override readonly name = 'NetworkError';
+
+    constructor(cause?: unknown) {
+        super(StavaxErrorCode.networkError, 'cannot reach stavax api', {cause});
+    }
+}
+
+export class RequestTimeoutError extends StavaxError {
+    override readonly name = 'RequestTimeoutError';
+
+    constructor(readonly timeout: number) {
+        super(StavaxErrorCode.timeout, `request timed out after ${timeout}ms`);
+    }
+}
+
+export class RequestAbortedError extends StavaxError {
+    override readonly name = 'RequestAbortedError';
+
+    constructor(reason?: unknown) {
+        super(StavaxErrorCode.aborted, 'request aborted', {cause: reason});
+    }
+}
+
+export class UserRejectedRequestError extends StavaxError {
+    override readonly name = 'UserRejectedRequestError';
+
+    constructor(message: string = 'user rejected the request') {
+        super(StavaxErrorCode.userRejected, message);
+    }
+}
+
+/**
+ * Raised when Stavax Account fails a provider request for a reason other than the user rejecting it.
+ * `rpcCode` and `data` hold the JSON-RPC error reported by Stavax Account.
+ */
+export class RequestRejectedError extends StavaxError {
+    override readonly name = 'RequestRejectedError';
+
+    constructor(readonly rpcCode: number, message: string, readonly data?: unknown) {
+        super(StavaxErrorCode.requestRejected, message);
+    }
+}
+
+export class SmartSessionNotFoundError extends StavaxError {
+    override readonly name = 'SmartSessionNotFoundError';
+
+    constructor(message: string = 'smart session not found') {
+        super(StavaxErrorCode.smartSessionNotFound, message);
+    }
+}
+
+/**
+ * Raised when a chain is not configured in the app or not supported by Stavax Account.
+ */
+export class ChainNotSupportedError extends StavaxError {
+    override readonly name = 'ChainNotSupportedError';
+
+    constructor(readonly chainId: number, message: string = `chain ${chainId} is not supported`) {
+        super(StavaxErrorCode.unsupportedChain, message);
+    }
+}
+
+/**
+ * Why Stavax Account could not be shown in the embedded drawer.
+ */
+export enum DrawerLoadFailure {
+    /**
+     * Stavax Account did not report it is ready within the `loadTimeout` of the drawer options, e.g. it is blocked or unreachable
+     */
+    timeout = 'timeout',
+    closed = 'closed',
+    destroyed = 'destroyed'
+}
+
+/**
+ * Raised when Stavax Account cannot be shown in the embedded drawer.
+ */
+export class DrawerLoadError extends StavaxError {
+    override readonly name = 'DrawerLoadError';
+
+    constructor(readonly reason: DrawerLoadFailure, message: string = `Stavax Account could not be loaded in the drawer: ${reason}`) {
+        super(StavaxErrorCode.drawerLoadFailed, message);
+    }
+}
+
+/**
+ * Whether the error comes from a request that timed out or was aborted by the caller.
+ * Such errors are always propagated instead of being handled by fail-safe logic.
+ */
+export function isRequestCancelled(err: unknown): err is RequestTimeoutError | RequestAbortedError {
+    return err instanceof RequestTimeoutError || err instanceof RequestAbortedError;
+}
+
+/**
+ * Converts an error reported by Stavax Account for a provider request into a typed error.
+ */
+export function fromProviderRequestError(data: any): StavaxError {
+    if (data instanceof StavaxError) {
+        return data;
+    }
+
+    const code = typeof data?.code === 'number' ? data.code : ProviderRpcErrorCode.internalError;
+    const message = typeof data === 'string' ? data : data?.message || 'provider request failed';
+    if (code == ProviderRpcErrorCode.userRejectedRequest) {
+        return new UserRejectedRequestError(message);
+    }
+
+    return new RequestRejectedError(code, message, data?.data);
+}
+
+/**
+ * EIP-1193 ProviderRpcError thrown by `EthereumProvider.request`.
+ */
+export class ProviderRpcError extends Error {
+    override readonly name = 'ProviderRpcError';
+
+    constructor(readonly code: number, message: string, readonly data?: unknown, options?: ErrorOptions) {
+        super(message, options);
+    }
+
+    static from(err: unknown): ProviderRpcError {
+        if (err instanceof ProviderRpcError) {
+            return err;
+        }
+
+        if (err instanceof UserRejectedRequestError) {
+            return new ProviderRpcError(ProviderRpcErrorCode.userRejectedRequest, err.message, undefined, {cause: err});
+        }
+
+        if (err instanceof RequestRejectedError) {
+            return new ProviderRpcError(err.rpcCode, err.message, err.data, {cause: err});
+        }
+
+        if (err instanceof ChainNotSupportedError) {
+            return new ProviderRpcError(ProviderRpcErrorCode.unrecognizedChain, err.message, undefined, {cause: err});
+        }
+
+        if (err instanceof StavaxError && err.code == StavaxErrorCode.invalidParameter) {
+            return new ProviderRpcError(ProviderRpcErrorCode.invalidParams, err.message, undefined, {cause: err});
+        }
+
+        if (err instanceof NetworkError) {
+            return new ProviderRpcError(ProviderRpcErrorCode.disconnected, err.message, undefined, {cause: err});
+        }
+
+        if (err instanceof Error) {
+            return new ProviderRpcError(ProviderRpcErrorCode.internalError, err.message, undefined, {cause: err});
+        }
+
+        return new ProviderRpcError(ProviderRpcErrorCode.internalError, String(err));
+    }
+}
@@ -1,2 +1,21 @@
+export * from './chains.js';
+export {injectedProtocolVersion, legacyInjectedProtocolVersion} from './channel.js';
+export {Drawer, type DrawerEvents} from './embedded.js';
+export * from './errors.js';
+export * from './logger.js';
+export type {RequestOptions, RetryConfig} from './request.js';
+export {parseReturnStartParam, readStartParam, returnStartParamPrefix} from './returnFlow.js';
+export * from './routes.js';
+export * from './siwe.js';
+export * from './smartSession.js';
 export * from './stavaxAccount.js';
+export {
+    localStorageAdapter,
+    memoryStorage,
+    sessionStorageAdapter,
+    StavaxStorage,
+    type StorageAdapter,
+    telegramCloudStorage,
+} from './storage.js';
+export * from './transactions.js';
 export * from './types.js';
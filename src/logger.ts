@@ -0,0 +1,63 @@
+import type {StavaxAccountConfig} from './types.js';
+
+export enum LogLevel {
+    debug = 'debug',
+    info = 'info',
+    warn = 'warn',
+    error = 'error',
+    silent = 'silent'
+}
+
+/**
+ * Structured context of a log entry, e.g. the provider method, the Stavax session, the transaction route
+ * and the duration of the operation in milliseconds.
+ */
+export interface LogContext {
+    method?: string;
+    sessionId?: string;
+    route?: string;
+    duration?: number;
+    error?: unknown;
+
+    [key: string]: unknown;
+}
+
+/**
+ * Receives the logs of the SDK, `console` is a valid logger.
+ */
+export interface Logger {
+    debug(message: string, context?: LogContext): void;
+
+    info(message: string, context?: LogContext): void;
+
+    warn(message: string, context?: LogContext): void;
+
+    error(message: string, context?: LogContext): void;
+}
+
+const levels: Record<LogLevel, number> = {
+    [LogLevel.debug] : 0,
+    [LogLevel.info]  : 1,
+    [LogLevel.warn]  : 2,
+    [LogLevel.error] : 3,
+    [LogLevel.silent]: 4,
+};
+
+const noop = () => void 0;
+
+/**
+ * Logger of the SDK for the config: the `logger` option filtered by `logLevel`, or `console` in `debug` mode.
+ * Nothing is logged without either of them.
+ */
+export function createLogger(config: Pick<StavaxAccountConfig, 'logger' | 'logLevel' | 'debug'>): Logger {
+    const logger = config.logger || (config.debug ? console : undefined);
+    const level = config.logLevel || (config.debug ? LogLevel.debug : LogLevel.warn);
+    const enabled = (entry: LogLevel) => !!logger && levels[entry] >= levels[level];
+
+    return {
+        debug: enabled(LogLevel.debug) ? (message, context) => logger!.debug(`[stavax] ${message}`, context) : noop,
+        info : enabled(LogLevel.info) ? (message, context) => logger!.info(`[stavax] ${message}`, context) : noop,
+        warn : enabled(LogLevel.warn) ? (message, context) => logger!.warn(`[stavax] ${message}`, context) : noop,
+        error: enabled(LogLevel.error) ? (message, context) => logger!.error(`[stavax] ${message}`, context) : noop,
+    };
+}
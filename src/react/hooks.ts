@@ -0,0 +1,231 @@
+import type {SendTransactionParameters}           from '@wagmi/core';
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {stringify}                                from 'viem';
+import type {StavaxError}                         from '../errors.js';
+import type {RequestOptions}                      from '../request.js';
+import {Result}                                   from '../result.js';
+import type {TransactionOptions}                  from '../smartSession.js';
+import {
+    type BotRoute,
+    type Session,
+    type SmartSession,
+    type StoredSession,
+    TgBotScreen,
+    type TrackedTransaction,
+}                                                 from '../types.js';
+import {useStavaxAccount}                         from './provider.js';
+
+export enum StavaxStatus {
+    idle = 'idle',
+    pending = 'pending',
+    success = 'success',
+    error = 'error'
+}
+
+/**
+ * State of the last call of a hook action, e.g. `open` of {@link useOpenStavax}.
+ */
+export interface StavaxActionState<T, E extends Error = Error> {
+    status: StavaxStatus;
+    /**
+     * Value of the last successful call
+     */
+    data: T | undefined;
+    /**
+     * Error of the last failed call
+     */
+    error: E | undefined;
+    isPending: boolean;
+}
+
+interface Action<A extends unknown[], T, E extends Error> extends StavaxActionState<T, E> {
+    run(...args: A): Promise<Result<T | undefined, E>>;
+
+    reset(): void;
+}
+
+/**
+ * Runs the action and keeps the state of its last call, results of outdated calls are ignored.
+ */
+function useAction<A extends unknown[], T, E extends Error = Error>(action: (...args: A) => Promise<T>): Action<A, T, E> {
+    const [state, setState] = useState<{ status: StavaxStatus; data?: T; error?: E }>({status: StavaxStatus.idle});
+    const latest = useRef(0);
+    const current = useRef(action);
+    current.current = action;
+
+    const run = useCallback(async (...args: A): Promise<Result<T | undefined, E>> => {
+        const call = ++latest.current;
+        setState({status: StavaxStatus.pending});
+        try {
+            const data = await current.current(...args);
+            if (call == latest.current) setState({status: StavaxStatus.success, data});
+            return new Result(data);
+        } catch (err) {
+            const error = (err instanceof Error ? err : new Error(String(err))) as E;
+            if (call == latest.current) setState({status: StavaxStatus.error, error});
+            return new Result<T | undefined, E>(undefined, error);
+        }
+    }, []);
+
+    const reset = useCallback(() => {
+        latest.current++;
+        setState({status: StavaxStatus.idle});
+    }, []);
+
+    return {
+        status   : state.status,
+        data     : state.data,
+        error    : state.error,
+        isPending: state.status == StavaxStatus.pending,
+        run,
+        reset,
+    };
+}
+
+export interface UseOpenStavaxReturnType extends StavaxActionState<void, StavaxError> {
+    /**
+     * Opens the screen in Stavax Account, see `stavaxAccount.openTgBotScreen`.
+     */
+    open(force?: boolean): Promise<Result<void, StavaxError>>;
+
+    reset(): void;
+}
+
+/**
+ * Opens a screen of Stavax Account, the home screen by default.
+ *
+ * @param {TgBotScreen | BotRoute} [screen] - Optional. The screen, or a route built with `botRoutes`.
+ */
+export function useOpenStavax(screen: TgBotScreen | BotRoute = TgBotScreen.home): UseOpenStavaxReturnType {
+    const stavaxAccount = useStavaxAccount();
+    const {run, ...state} = useAction<[boolean?], void, StavaxError>(async (force?: boolean) => {
+        const result = await stavaxAccount.openTgBotScreen(screen, force);
+        if (result.error) {
+            throw result.error;
+        }
+    });
+
+    return {...state, open: run};
+}
+
+export interface UseStavaxSessionParameters {
+    /**
+     * Whether the persisted session is validated and its wagmi connection restored on mount, see `stavaxAccount.restoreSession`.
+     * Default is `true`.
+     */
+    restore?: boolean;
+}
+
+export interface UseStavaxSessionReturnType extends StavaxActionState<Session | undefined> {
+    /**
+     * Persisted Stavax session of the wallet connection, see `stavaxAccount.activeSession`
+     */
+    session: StoredSession | undefined;
+
+    connect(uri?: string, options?: RequestOptions): Promise<Result<Session | undefined, Error>>;
+
+    restore(options?: RequestOptions): Promise<Result<Session | undefined, Error>>;
+
+    disconnect(): Promise<Result<Session | undefined, Error>>;
+
+    reset(): void;
+}
+
+/**
+ * Stavax session of the wallet connection, with the state of the last `connect`, `restore` or `disconnect` call.
+ */
+export function useStavaxSession(parameters: UseStavaxSessionParameters = {}): UseStavaxSessionReturnType {
+    const stavaxAccount = useStavaxAccount();
+    const [session, setSession] = useState<StoredSession>();
+    const {run, ...state} = useAction((operation: () => Promise<Session | undefined>) => operation()
+        .finally(() => setSession(stavaxAccount.activeSession)));
+
+    const connect = useCallback((uri?: string, options?: RequestOptions) => run(() => stavaxAccount.connect(uri, options)), [run, stavaxAccount]);
+    const restore = useCallback((options?: RequestOptions) => run(() => stavaxAccount.restoreSession(options)), [run, stavaxAccount]);
+    const disconnect = useCallback(() => run(() => stavaxAccount.disconnect().then(() => undefined)), [run, stavaxAccount]);
+
+    const restoreOnMount = parameters.restore ?? true;
+    useEffect(() => {
+        let mounted = true;
+        stavaxAccount.ready().then(() => {
+            if (!mounted) return;
+            setSession(stavaxAccount.activeSession);
+            if (restoreOnMount && stavaxAccount.activeSession) {
+                restore();
+            }
+        });
+
+        return () => {
+            mounted = false;
+        };
+    }, [stavaxAccount, restoreOnMount, restore]);
+
+    return {...state, session, connect, restore, disconnect};
+}
+
+export interface UseSmartSessionReturnType extends StavaxActionState<SmartSession | undefined> {
+    /**
+     * Looks the smart session up again.
+     */
+    refetch(): Promise<Result<SmartSession | undefined, Error>>;
+}
+
+/**
+ * Smart session that pre-authorizes the transaction, looked up again whenever the transaction changes.
+ * `data` is undefined while loading or if the user has none for this transaction.
+ *
+ * @param {SendTransactionParameters} [parameters] - Optional. The transaction, nothing is looked up without it.
+ */
+export function useSmartSession(parameters?: SendTransactionParameters): UseSmartSessionReturnType {
+    const stavaxAccount = useStavaxAccount();
+    const {run, reset, ...state} = useAction(async () => parameters && stavaxAccount.findSmartSession(parameters));
+
+    const key = parameters && stringify(parameters);
+    useEffect(() => {
+        if (key) {
+            run();
+        } else {
+            reset();
+        }
+    }, [stavaxAccount, key, run, reset]);
+
+    return {...state, refetch: run};
+}
+
+export interface UseStavaxSendTransactionReturnType extends StavaxActionState<TrackedTransaction> {
+    /**
+     * Sends the transaction, see `stavaxAccount.sendTrackedTransaction`.
+     */
+    sendTransaction(parameters: SendTransactionParameters, options?: TransactionOptions): Promise<Result<TrackedTransaction | undefined, Error>>;
+
+    reset(): void;
+}
+
+/**
+ * Sends transactions through a smart session or the wallet. `data` is the last sent transaction,
+ * updated by `stavaxAccount.transactions` until it is confirmed, reverted or replaced.
+ */
+export function useStavaxSendTransaction(): UseStavaxSendTransactionReturnType {
+    const stavaxAccount = useStavaxAccount();
+    const {run, ...state} = useAction(
+        (parameters: SendTransactionParameters, options?: TransactionOptions) => stavaxAccount.sendTrackedTransaction(parameters, options),
+    );
+    const [update, setUpdate] = useState<TrackedTransaction>();
+
+    const hash = state.data?.hash;
+    useEffect(() => {
+        if (!hash) return;
+
+        const listener = (transaction: TrackedTransaction) => {
+            if (transaction.hash == hash) setUpdate(transaction);
+        };
+        stavaxAccount.transactions.on('change', listener);
+        return () => stavaxAccount.transactions.removeListener('change', listener);
+    }, [stavaxAccount, hash]);
+
+    return {
+        ...state,
+        data           : update && update.hash == hash ? update : state.data,
+        sendTransaction: run,
+    };
+}
@@ -0,0 +1,69 @@
+import type {Config}                                                                           from '@wagmi/core';
+import {createContext, createElement, type ReactNode, useContext, useEffect, useRef, useState} from 'react';
+import {ConfigError, StavaxErrorCode}                                                          from '../errors.js';
+import {StavaxAccount}                                                                         from '../stavaxAccount.js';
+import type {StavaxAccountConfig}                                                              from '../types.js';
+
+const StavaxContext = createContext<StavaxAccount | undefined>(undefined);
+
+/**
+ * Props of {@link StavaxProvider}, either the config of a new StavaxAccount or an existing instance.
+ */
+export type StavaxProviderProps = ({ config: StavaxAccountConfig } | { stavaxAccount: StavaxAccount }) & {
+    /**
+     * Wagmi config of the app, the `config` of `WagmiProvider`. Default is the `wagmiConfig` of the Stavax config.
+     */
+    wagmiConfig?: Config;
+    children?: ReactNode;
+};
+
+/**
+ * Provides a StavaxAccount to the hooks of its children, to be placed inside `WagmiProvider` with the same wagmi config.
+ * A StavaxAccount created from `config` is destroyed on unmount, later changes of `config` are ignored.
+ */
+export function StavaxProvider(props: StavaxProviderProps) {
+    const {wagmiConfig, children} = props;
+    // The session is only restored once mounted, so that the instance StrictMode discards from its double render starts nothing
+    const [created] = useState(() => 'config' in props
+        ? new StavaxAccount({...props.config, wagmiConfig: props.config.wagmiConfig || wagmiConfig, disableSessionRestore: true})
+        : undefined);
+    const stavaxAccount = 'stavaxAccount' in props ? props.stavaxAccount : created!;
+    // Initial only, like the rest of config: the effect below runs once per instance
+    const restoreSession = useRef('config' in props && !props.config.disableSessionRestore);
+    const destroyTimer = useRef<ReturnType<typeof setTimeout>>();
+
+    useEffect(() => {
+        if (wagmiConfig && stavaxAccount.wagmiConfig !== wagmiConfig) {
+            stavaxAccount.setWagmiConfig(wagmiConfig);
+        }
+    }, [stavaxAccount, wagmiConfig]);
+
+    useEffect(() => {
+        clearTimeout(destroyTimer.current);
+        if (created && restoreSession.current) {
+            // Failures are retried by the next restoreSession, e.g. of useStavaxSession
+            created.restoreSession().catch(() => undefined);
+        }
+
+        // Deferred, so that the remount simulated by StrictMode keeps the instance
+        return () => {
+            destroyTimer.current = setTimeout(() => created?.destroy());
+        };
+    }, [created]);
+
+    return createElement(StavaxContext.Provider, {value: stavaxAccount}, children);
+}
+
+/**
+ * Returns the StavaxAccount of the closest {@link StavaxProvider}.
+ *
+ * @throws {ConfigError} Throws an error with code `INVALID_CONFIG` outside a StavaxProvider.
+ */
+export function useStavaxAccount(): StavaxAccount {
+    const stavaxAccount = useContext(StavaxContext);
+    if (!stavaxAccount) {
+        throw new ConfigError(StavaxErrorCode.invalidConfig, 'useStavaxAccount must be used within StavaxProvider');
+    }
+
+    return stavaxAccount;
+}
@@ -0,0 +1,144 @@
+import {RequestAbortedError, RequestTimeoutError} from './errors.js';
+
+/**
+ * Per-call options accepted by the public methods that talk to Stavax API or Stavax Account.
+ *
+ * @interface RequestOptions
+ * @property {AbortSignal} [signal] - Optional. Cancels the call when aborted.
+ * @property {number} [timeout] - Optional. Overrides `requestTimeout` for this call, in milliseconds.
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+}
+
+/**
+ * Retry policy for idempotent Stavax API calls.
+ *
+ * @interface RetryConfig
+ * @property {number} [retries=2] - Optional. Number of retries after the first attempt. Default is `2`.
+ * @property {number} [minDelay=300] - Optional. Delay before the first retry in milliseconds, doubled on each retry. Default is 300 ms.
+ * @property {number} [maxDelay=5000] - Optional. Upper bound of the delay between retries in milliseconds. Default is 5,000 ms.
+ */
+export interface RetryConfig {
+    retries?: number;
+    minDelay?: number;
+    maxDelay?: number;
+}
+
+const defaultRetryConfig: Required<RetryConfig> = {
+    retries : 2,
+    minDelay: 300,
+    maxDelay: 5_000,
+};
+
+/**
+ * Runs the executor with an AbortSignal that is aborted when the timeout elapses or the caller's signal aborts.
+ * The returned promise rejects with {@link RequestTimeoutError} or {@link RequestAbortedError} accordingly,
+ * so executors only have to release their resources when the signal they receive is aborted.
+ */
+export function withTimeout<T>(executor: (signal: AbortSignal) => Promise<T>, timeout: number, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+        return Promise.reject(new RequestAbortedError(signal.reason));
+    }
+
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            cleanup();
+            const err = new RequestAbortedError(signal?.reason);
+            controller.abort(err);
+            reject(err);
+        };
+        const tid = setTimeout(() => {
+            cleanup();
+            const err = new RequestTimeoutError(timeout);
+            controller.abort(err);
+            reject(err);
+        }, timeout);
+        const cleanup = () => {
+            clearTimeout(tid);
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        signal?.addEventListener('abort', onAbort);
+        executor(controller.signal)
+            .then(resolve, reject)
+            .finally(cleanup);
+    });
+}
+
+/**
+ * Retries the function with exponential backoff while it fails with a retryable error.
+ * Aborting the signal stops any further attempt.
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    isRetryable: (err: unknown) => boolean,
+    config?: RetryConfig,
+    signal?: AbortSignal,
+): Promise<T> {
+    const {retries, minDelay, maxDelay} = {...defaultRetryConfig, ...(config || {})};
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= retries || signal?.aborted || !isRetryable(err)) {
+                throw err;
+            }
+        }
+
+        await abortableSleep(Math.min(minDelay * 2 ** attempt, maxDelay), signal);
+    }
+}
+
+/**
+ * Sleeps for the given time, rejecting early with the signal's reason when it aborts.
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(tid);
+            reject(signal?.reason);
+        };
+        const tid = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, {once: true});
+    });
+}
+
+class RetryableResponseError extends Error {
+    constructor(readonly response: Response) {
+        super(`retryable response status ${response.status}`);
+    }
+}
+
+/**
+ * Retries a fetch on network errors, `429` and `5xx` responses.
+ * Once retries are exhausted, the last response is returned as is.
+ */
+export async function retryFetch(doFetch: () => Promise<Response>, config?: RetryConfig, signal?: AbortSignal): Promise<Response> {
+    try {
+        return await withRetry(async () => {
+            const res = await doFetch();
+            if (res.status == 429 || res.status >= 500) {
+                throw new RetryableResponseError(res);
+            }
+            return res;
+        }, err => err instanceof RetryableResponseError || err instanceof TypeError, config, signal);
+    } catch (err) {
+        if (err instanceof RetryableResponseError) {
+            return err.response;
+        }
+        throw err;
+    }
+}
@@ -1,8 +1,10 @@
-export class Result<T> {
-    constructor(private v: T, private err?: Error) {
+import type {StavaxError} from './errors.js';
+
+export class Result<T, E extends Error = StavaxError> {
+    constructor(private v: T, private err?: E) {
     }
 
-    get error(): Error | undefined {
+    get error(): E | undefined {
         return this.err
     }
 
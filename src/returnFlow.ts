@@ -0,0 +1,57 @@
+import {telegramCheck} from './telegram.js';
+import {isBrowser}     from './utils.js';
+
+/**
+ * Prefix of the start parameter Stavax Account sends the user back with, followed by the session ID.
+ */
+export const returnStartParamPrefix = 'stavax-';
+
+/**
+ * Pending flows older than this are not resumed without a start parameter.
+ */
+export const pendingFlowTTL = 15 * 60_000;
+
+export interface PendingFlow {
+    sessionId: string;
+    createdAt: number;
+}
+
+/**
+ * Builds the start parameter that brings the user back from the session.
+ * Telegram only allows `A-Z`, `a-z`, `0-9`, `_` and `-` in start parameters.
+ *
+ * @param {string} sessionId - ID of the Stavax session.
+ * @return {string | undefined} The start parameter, or undefined if the session ID cannot be carried by it.
+ */
+export function encodeReturnStartParam(sessionId: string): string | undefined {
+    const param = `${returnStartParamPrefix}${sessionId}`;
+    return /^[\w-]{1,512}$/.test(param) ? param : undefined;
+}
+
+/**
+ * Returns the session ID carried by a start parameter built with {@link encodeReturnStartParam}.
+ */
+export function parseReturnStartParam(param?: string | null): string | undefined {
+    if (!param?.startsWith(returnStartParamPrefix)) {
+        return undefined;
+    }
+
+    return param.slice(returnStartParamPrefix.length) || undefined;
+}
+
+/**
+ * Reads the start parameter the page was opened with:
+ * `start_param` of the Telegram init data, or else the `tgWebAppStartParam` or `startapp` URL parameter.
+ */
+export function readStartParam(): string | undefined {
+    const startParam = telegramCheck(() => Telegram.WebApp.initDataUnsafe?.start_param, undefined);
+    if (startParam) {
+        return startParam;
+    }
+    if (!isBrowser()) {
+        return undefined;
+    }
+
+    const params = new URLSearchParams(window.location.search);
+    return params.get('tgWebAppStartParam') || params.get('startapp') || undefined;
+}
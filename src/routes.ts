@@ -0,0 +1,136 @@
+import {isAddress, isHex}                                                        from 'viem';
+import {StavaxError, StavaxErrorCode}                                            from './errors.js';
+import {type BotRoute, type BotRouteParameters, type BotRouteToken, TgBotScreen} from './types.js';
+
+/**
+ * Typed builders of the bot routes, e.g. `botRoutes.deposit({token: 'native', amount: '1.5'})`.
+ */
+export const botRoutes = {
+    home         : () => toRoute(TgBotScreen.home, {}),
+    deposit      : (params: BotRouteParameters<TgBotScreen.deposit> = {}) => toRoute(TgBotScreen.deposit, params),
+    withdraw     : (params: BotRouteParameters<TgBotScreen.withdraw> = {}) => toRoute(TgBotScreen.withdraw, params),
+    swap         : (params: BotRouteParameters<TgBotScreen.swap> = {}) => toRoute(TgBotScreen.swap, params),
+    history      : (params: BotRouteParameters<TgBotScreen.history> = {}) => toRoute(TgBotScreen.history, params),
+    transaction  : (params: BotRouteParameters<TgBotScreen.transaction>) => toRoute(TgBotScreen.transaction, params),
+    token        : (params: BotRouteParameters<TgBotScreen.token>) => toRoute(TgBotScreen.token, params),
+    settings     : () => toRoute(TgBotScreen.settings, {}),
+    smartSessions: (params: BotRouteParameters<TgBotScreen.smartSessions> = {}) => toRoute(TgBotScreen.smartSessions, params),
+};
+
+function toRoute<S extends TgBotScreen>(screen: S, params: BotRouteParameters<S>): BotRoute {
+    return {screen, ...params} as BotRoute;
+}
+
+/**
+ * Validates the parameters of the route and serializes it into the `href` of the session data opening the bot.
+ *
+ * @param {BotRoute | TgBotScreen} route - The route, or a screen without parameters.
+ * @return {string} The href of the screen.
+ * @throws {StavaxError} Throws an error with code `INVALID_PARAMETER` if the screen is unknown or a parameter is invalid.
+ */
+export function buildBotHref(route: BotRoute | TgBotScreen): string {
+    if (typeof route === 'string') {
+        route = {screen: route} as BotRoute;
+    }
+
+    switch (route.screen) {
+        case TgBotScreen.home:
+            return '/';
+        case TgBotScreen.deposit:
+            return withQuery('/currency/qr-code', {
+                chain_id: chainIdParam(route.chainId),
+                token   : tokenParam('token', route.token),
+                amount  : amountParam(route.amount),
+            });
+        case TgBotScreen.withdraw:
+            return withQuery('/withdraw', {
+                chain_id : chainIdParam(route.chainId),
+                token    : tokenParam('token', route.token),
+                amount   : amountParam(route.amount),
+                recipient: addressParam('recipient', route.recipient),
+            });
+        case TgBotScreen.swap:
+            return withQuery('/swap', {
+                chain_id  : chainIdParam(route.chainId),
+                from_token: tokenParam('fromToken', route.fromToken),
+                to_token  : tokenParam('toToken', route.toToken),
+                amount    : amountParam(route.amount),
+            });
+        case TgBotScreen.history:
+            return withQuery('/history', {
+                chain_id: chainIdParam(route.chainId),
+            });
+        case TgBotScreen.transaction:
+            if (!isHex(route.hash, {strict: true}) || route.hash.length != 66) {
+                throw invalid(`invalid transaction hash ${route.hash}`);
+            }
+            return withQuery(`/history/${route.hash}`, {
+                chain_id: chainIdParam(route.chainId, true),
+            });
+        case TgBotScreen.token:
+            return `/token/${chainIdParam(route.chainId, true)}/${tokenParam('token', route.token, true)}`;
+        case TgBotScreen.settings:
+            return '/settings';
+        case TgBotScreen.smartSessions:
+            if (route.smartSessionId !== undefined && (typeof route.smartSessionId !== 'string' || !route.smartSessionId)) {
+                throw invalid('invalid smart session ID');
+            }
+            return route.smartSessionId ? `/smart-sessions/${encodeURIComponent(route.smartSessionId)}` : '/smart-sessions';
+        default:
+            throw invalid('invalid TgBotScreen');
+    }
+}
+
+function invalid(message: string): StavaxError {
+    return new StavaxError(StavaxErrorCode.invalidParameter, message);
+}
+
+function withQuery(path: string, params: Record<string, string | undefined>): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) query.set(key, value);
+    }
+
+    const search = query.toString();
+    return search ? `${path}?${search}` : path;
+}
+
+function chainIdParam(chainId: number | undefined, required = false): string | undefined {
+    if (chainId === undefined && !required) {
+        return undefined;
+    }
+    if (!Number.isSafeInteger(chainId) || chainId! <= 0) {
+        throw invalid(`invalid chain ID ${chainId}`);
+    }
+    return chainId!.toString();
+}
+
+function tokenParam(name: string, token: BotRouteToken | undefined, required = false): string | undefined {
+    if (token === undefined && !required) {
+        return undefined;
+    }
+    if (token !== 'native' && !isAddress(token as string, {strict: false})) {
+        throw invalid(`invalid ${name} ${token}, expected a token address or 'native'`);
+    }
+    return token;
+}
+
+function addressParam(name: string, address: string | undefined): string | undefined {
+    if (address === undefined) {
+        return undefined;
+    }
+    if (!isAddress(address, {strict: false})) {
+        throw invalid(`invalid ${name} address ${address}`);
+    }
+    return address;
+}
+
+function amountParam(amount: string | undefined): string | undefined {
+    if (amount === undefined) {
+        return undefined;
+    }
+    if (typeof amount !== 'string' || !/^\d+(\.\d+)?$/.test(amount) || !/[1-9]/.test(amount)) {
+        throw invalid(`invalid amount ${amount}, expected a positive decimal string`);
+    }
+    return amount;
+}
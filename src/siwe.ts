@@ -0,0 +1,79 @@
+import {type Config, getPublicClient}                           from '@wagmi/core';
+import type {Address, Client, Hex}                             from 'viem';
+import {parseSiweMessage, type SiweMessage, verifySiweMessage} from 'viem/siwe';
+import {ConfigError, StavaxErrorCode}                          from './errors.js';
+
+/**
+ * Parameters of {@link StavaxAccount.signInWithEthereum}.
+ *
+ * @interface SignInWithEthereumParameters
+ * @property {string} nonce - Nonce issued by your backend, at least 8 alphanumeric characters.
+ * @property {string} [domain] - Optional. RFC 3986 authority requesting the signing. Default is the host of the current page.
+ * @property {string} [statement] - Optional. Human-readable statement the user signs, must not contain new lines.
+ * @property {string} [uri] - Optional. RFC 3986 URI referring to the resource of the signing. Default is the URL of the current page.
+ * @property {number} [chainId] - Optional. Default is the current wagmi chain.
+ * @property {Address} [address] - Optional. Default is the connected wagmi account.
+ * @property {Date} [issuedAt] - Optional. Default is now.
+ * @property {Date} [expirationTime] - Optional. When the signed message expires.
+ * @property {Date} [notBefore] - Optional. When the signed message becomes valid.
+ * @property {string} [requestId] - Optional. System-specific identifier of the sign-in request.
+ * @property {string[]} [resources] - Optional. Resources the user wishes to have resolved as part of authentication.
+ */
+export interface SignInWithEthereumParameters {
+    nonce: string;
+    domain?: string;
+    statement?: string;
+    uri?: string;
+    chainId?: number;
+    address?: Address;
+    issuedAt?: Date;
+    expirationTime?: Date;
+    notBefore?: Date;
+    requestId?: string;
+    resources?: string[];
+}
+
+export interface SignInWithEthereumResult {
+    /**
+     * EIP-4361 formatted message signed by the user
+     */
+    message: string;
+    signature: Hex;
+    fields: SiweMessage;
+}
+
+/**
+ * Parameters of {@link verifySignInWithEthereum}. Fields other than `message` and `signature` are checked against the message when set.
+ */
+export interface VerifySignInWithEthereumParameters {
+    message: string;
+    signature: Hex;
+    address?: Address;
+    domain?: string;
+    nonce?: string;
+    scheme?: string;
+    /**
+     * Time to check `expirationTime` and `notBefore` against, default is now
+     */
+    time?: Date;
+}
+
+/**
+ * Verifies a Sign-In With Ethereum signature, from an EOA or a smart wallet (ERC-1271, or ERC-6492 when it is not deployed yet).
+ *
+ * @param {Config | Client} client - A wagmi config, whose public client for the message's chain is used, or a viem client.
+ * @param {VerifySignInWithEthereumParameters} parameters - The message, its signature and the expected fields.
+ * @return {Promise<boolean>} A promise that resolves with whether the message is valid and was signed by its address.
+ */
+export async function verifySignInWithEthereum(client: Config | Client, parameters: VerifySignInWithEthereumParameters): Promise<boolean> {
+    if ('getClient' in client) {
+        const {chainId} = parseSiweMessage(parameters.message);
+        const publicClient = getPublicClient(client, {chainId});
+        if (!publicClient) {
+            throw new ConfigError(StavaxErrorCode.invalidConfig, `chain ${chainId} is not configured in wagmi config`);
+        }
+        client = publicClient;
+    }
+
+    return verifySiweMessage(client, parameters);
+}
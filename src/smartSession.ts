@@ -0,0 +1,345 @@
+import {type Config, getAccount, getChainId, type SendTransactionParameters} from '@wagmi/core';
+import {type Address, type Hex, toHex}                                       from 'viem';
+import type {StavaxAPI}                                                      from './api.js';
+import {ApiError, SmartSessionNotFoundError, StavaxError, StavaxErrorCode}   from './errors.js';
+import type {RequestOptions}                                                 from './request.js';
+import {
+    type BatchCall,
+    type GasQuote,
+    type SendCallsParameters,
+    type SessionData,
+    type SmartSession,
+    type SmartSessionRequest,
+    type SmartSessionStatus,
+    SponsorshipMode,
+    type SponsorshipOutcome,
+    type SponsorshipPolicy,
+}                                                                            from './types.js';
+
+export interface SmartSessionManagerContext {
+    api: StavaxAPI;
+    getWagmiConfig: () => Config;
+    /**
+     * Opens Stavax Account with the session data and resolves with the result once the user handled it
+     */
+    confirm: (data: SessionData, options?: RequestOptions) => Promise<any>;
+    /**
+     * Sponsorship policy of the config, used when a call does not set one
+     */
+    getSponsorship: () => SponsorshipPolicy | undefined;
+}
+
+/**
+ * Options of calls sending smart session transactions.
+ *
+ * @interface TransactionOptions
+ * @property {SponsorshipPolicy} [sponsorship] - Optional. Who pays the gas, overriding the `sponsorship` config.
+ */
+export interface TransactionOptions extends RequestOptions {
+    sponsorship?: SponsorshipPolicy;
+}
+
+export interface SmartSessionSendResult {
+    hash: Hex;
+    /**
+     * Who paid the gas, when reported by Stavax API
+     */
+    sponsorship?: SponsorshipOutcome;
+}
+
+/**
+ * Filters of {@link SmartSessionManager.list}.
+ *
+ * @interface ListSmartSessionsParameters
+ * @property {Address} [address] - Optional. Owner of the smart sessions. Default is the connected wagmi account.
+ * @property {number} [chainId] - Optional. Only list smart sessions of this chain.
+ * @property {SmartSessionStatus} [status] - Optional. Only list smart sessions with this status.
+ */
+export interface ListSmartSessionsParameters {
+    address?: Address;
+    chainId?: number;
+    status?: SmartSessionStatus;
+}
+
+interface SendResponse {
+    tx_hash?: Hex;
+    sponsorship?: SponsorshipOutcome | null;
+}
+
+export type CreateSmartSessionParameters = Omit<SmartSessionRequest, 'chain_id'> & {
+    /**
+     * Default is the current wagmi chain
+     */
+    chain_id?: number;
+};
+
+/**
+ * Manages the smart sessions (pre-authorized transactions) of the connected account.
+ */
+export class SmartSessionManager {
+    constructor(private readonly context: SmartSessionManagerContext) {
+    }
+
+    /**
+     * Lists the smart sessions of the account.
+     *
+     * @param {ListSmartSessionsParameters} [parameters] - Optional filters.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession[]>} A promise that resolves with the smart sessions.
+     */
+    async list(parameters?: ListSmartSessionsParameters, options?: RequestOptions): Promise<SmartSession[]> {
+        const sessions = await this.context.api.post<SmartSession[] | null>('/sdk-api/smart-wallets/sessions/list', {
+            sender_address: parameters?.address || this.senderAddress(),
+            chain_id      : parameters?.chainId,
+            status        : parameters?.status,
+        }, {...options, idempotent: true});
+
+        return sessions || [];
+    }
+
+    /**
+     * Retrieves a smart session with its permissions, spend limits and expiry.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession>} A promise that resolves with the smart session.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async get(id: string, options?: RequestOptions): Promise<SmartSession> {
+        return this.withNotFound(() => this.context.api.post('/sdk-api/smart-wallets/sessions/detail', {
+            smart_session_id: id,
+        }, {...options, idempotent: true}));
+    }
+
+    /**
+     * Asks the user to approve a new smart session in Stavax Account.
+     *
+     * @param {CreateSmartSessionParameters} parameters - Scope of the smart session.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal, the timeout covers the user approval.
+     * @return {Promise<SmartSession>} A promise that resolves with the approved smart session.
+     * @throws {UserRejectedRequestError} Throws an error if the user rejects the smart session.
+     */
+    async create(parameters: CreateSmartSessionParameters, options?: RequestOptions): Promise<SmartSession> {
+        if (!parameters.permissions?.length) {
+            throw new StavaxError(StavaxErrorCode.invalidParameter, 'smart session requires at least one permission');
+        }
+        if (!(parameters.duration > 0)) {
+            throw new StavaxError(StavaxErrorCode.invalidParameter, 'smart session duration must be positive');
+        }
+
+        return this.context.confirm({
+            smartSessionRequest: {
+                ...parameters,
+                chain_id: parameters.chain_id || getChainId(this.context.getWagmiConfig()),
+            },
+        }, options);
+    }
+
+    /**
+     * Revokes a smart session, transactions are no longer pre-authorized by it.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession>} A promise that resolves with the revoked smart session.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async revoke(id: string, options?: RequestOptions): Promise<SmartSession> {
+        return this.withNotFound(() => this.context.api.post('/sdk-api/smart-wallets/sessions/revoke', {
+            smart_session_id: id,
+            sender_address  : this.senderAddress(),
+        }, options));
+    }
+
+    /**
+     * Finds a smart session that pre-authorizes the transaction.
+     *
+     * @param {SendTransactionParameters} parameters - The transaction to find a smart session for.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession | undefined>} A promise that resolves with the smart session, or undefined if the user has none for this transaction.
+     * @throws {ApiError} Throws an error if Stavax API fails to look up smart sessions.
+     */
+    async find(parameters: SendTransactionParameters, options?: RequestOptions): Promise<SmartSession | undefined> {
+        try {
+            const smartSession = await this.context.api.post<SmartSession | null>('/sdk-api/smart-wallets/sessions/find-session', {
+                sender_address: parameters.account || this.senderAddress(),
+                chain_id      : parameters.chainId || getChainId(this.context.getWagmiConfig()),
+                to            : parameters.to,
+                value         : toHex(parameters.value || 0n),
+                data          : parameters.data,
+            }, {...options, idempotent: true});
+            return smartSession || undefined;
+        } catch (err) {
+            if (err instanceof ApiError && err.status == 404) {
+                return undefined;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Sends a transaction pre-authorized by the smart session, without user confirmation.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {SendTransactionParameters} parameters - The transaction to send.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<SmartSessionSendResult>} A promise that resolves with the transaction hash and who paid the gas.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async sendTransaction(id: string, parameters: SendTransactionParameters, options?: TransactionOptions): Promise<SmartSessionSendResult> {
+        const data = await this.withNotFound(() => this.context.api.post<SendResponse | null>('/sdk-api/smart-wallets/sessions/send-transaction', {
+            ...this.transactionBody(id, parameters),
+            sponsorship: this.sponsorship(options),
+        }, options));
+
+        if (!data?.tx_hash) {
+            throw new StavaxError(StavaxErrorCode.apiError, 'smart session transaction has no tx hash');
+        }
+
+        return {hash: data.tx_hash, sponsorship: data.sponsorship || undefined};
+    }
+
+    /**
+     * Estimates the gas of a transaction pre-authorized by the smart session, and who would pay it.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {SendTransactionParameters} parameters - The transaction to estimate.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<GasQuote>} A promise that resolves with the gas quote.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async quoteTransaction(id: string, parameters: SendTransactionParameters, options?: TransactionOptions): Promise<GasQuote> {
+        return this.withNotFound(() => this.context.api.post('/sdk-api/smart-wallets/sessions/quote', {
+            ...this.transactionBody(id, parameters),
+            sponsorship: this.sponsorship(options),
+        }, {...options, idempotent: true}));
+    }
+
+    /**
+     * Finds a smart session that pre-authorizes every call of the batch.
+     *
+     * @param {SendCallsParameters} parameters - The batch to find a smart session for.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession | undefined>} A promise that resolves with the smart session, or undefined if the user has none for this batch.
+     * @throws {ApiError} Throws an error if Stavax API fails to look up smart sessions.
+     */
+    async findForCalls(parameters: SendCallsParameters, options?: RequestOptions): Promise<SmartSession | undefined> {
+        try {
+            const smartSession = await this.context.api.post<SmartSession | null>('/sdk-api/smart-wallets/sessions/find-session', {
+                sender_address: parameters.account || this.senderAddress(),
+                chain_id      : parameters.chainId || getChainId(this.context.getWagmiConfig()),
+                calls         : this.encodeCalls(parameters.calls),
+            }, {...options, idempotent: true});
+            return smartSession || undefined;
+        } catch (err) {
+            if (err instanceof ApiError && err.status == 404) {
+                return undefined;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Sends a batch of calls atomically, pre-authorized by the smart session, without user confirmation.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {SendCallsParameters} parameters - The batch to send.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<SmartSessionSendResult>} A promise that resolves with the hash of the transaction executing the batch and who paid the gas.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async sendCalls(id: string, parameters: SendCallsParameters, options?: TransactionOptions): Promise<SmartSessionSendResult> {
+        const data = await this.withNotFound(() => this.context.api.post<SendResponse | null>('/sdk-api/smart-wallets/sessions/send-calls', {
+            ...this.callsBody(id, parameters),
+            sponsorship: this.sponsorship(options),
+        }, options));
+
+        if (!data?.tx_hash) {
+            throw new StavaxError(StavaxErrorCode.apiError, 'smart session batch has no tx hash');
+        }
+
+        return {hash: data.tx_hash, sponsorship: data.sponsorship || undefined};
+    }
+
+    /**
+     * Estimates the gas of a batch pre-authorized by the smart session, and who would pay it.
+     *
+     * @param {string} id - The smart session ID.
+     * @param {SendCallsParameters} parameters - The batch to estimate.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<GasQuote>} A promise that resolves with the gas quote.
+     * @throws {SmartSessionNotFoundError} Throws an error if the smart session does not exist.
+     */
+    async quoteCalls(id: string, parameters: SendCallsParameters, options?: TransactionOptions): Promise<GasQuote> {
+        return this.withNotFound(() => this.context.api.post('/sdk-api/smart-wallets/sessions/quote', {
+            ...this.callsBody(id, parameters),
+            sponsorship: this.sponsorship(options),
+        }, {...options, idempotent: true}));
+    }
+
+    private transactionBody(id: string, parameters: SendTransactionParameters) {
+        return {
+            smart_session_id: id,
+            sender_address  : parameters.account || this.senderAddress(),
+            chain_id        : parameters.chainId || getChainId(this.context.getWagmiConfig()),
+            to              : parameters.to,
+            value           : toHex(parameters.value || 0n),
+            data            : parameters.data,
+        };
+    }
+
+    private callsBody(id: string, parameters: SendCallsParameters) {
+        return {
+            smart_session_id: id,
+            sender_address  : parameters.account || this.senderAddress(),
+            chain_id        : parameters.chainId || getChainId(this.context.getWagmiConfig()),
+            calls           : this.encodeCalls(parameters.calls),
+        };
+    }
+
+    /**
+     * Encodes the sponsorship policy of the call, or else of the config, for Stavax API.
+     */
+    private sponsorship(options?: TransactionOptions) {
+        const policy = options?.sponsorship || this.context.getSponsorship();
+        if (!policy) {
+            return undefined;
+        }
+
+        switch (policy.mode) {
+            case SponsorshipMode.project:
+                return {mode: policy.mode, policy_id: policy.policyId};
+            case SponsorshipMode.token:
+                if (!policy.token) {
+                    throw new StavaxError(StavaxErrorCode.invalidParameter, 'token sponsorship requires a token address');
+                }
+                return {mode: policy.mode, token: policy.token};
+            case SponsorshipMode.user:
+                return {mode: policy.mode};
+            default:
+                throw new StavaxError(StavaxErrorCode.invalidParameter, `unknown sponsorship mode ${(policy as SponsorshipPolicy).mode}`);
+        }
+    }
+
+    private encodeCalls(calls: BatchCall[]) {
+        return calls.map(call => ({
+            to   : call.to,
+            value: toHex(call.value || 0n),
+            data : call.data,
+        }));
+    }
+
+    private senderAddress(): Address | undefined {
+        return getAccount(this.context.getWagmiConfig()).address;
+    }
+
+    private async withNotFound<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (err) {
+            if (err instanceof ApiError && err.status == 404) {
+                throw new SmartSessionNotFoundError(err.serverMessage);
+            }
+            throw err;
+        }
+    }
+}
@@ -3,54 +3,153 @@ import {
     connect,
     type Connector,
     type ConnectReturnType,
+    disconnect as wagmiDisconnect,
     getAccount,
     getChainId,
+    getConnectorClient,
     getConnectors,
+    getPublicClient,
+    reconnect,
     sendTransaction,
     type SendTransactionParameters,
     type SendTransactionReturnType,
     type WriteContractParameters,
-}                                                              from '@wagmi/core';
-import {encodeFunctionData, type Hex, toHex}                   from 'viem';
-import {EthereumProvider, ProviderRDNS, setupEthereumProvider} from './adapter/evm.js';
-import {Drawer}                                                from './embedded.js';
-import {Result}                                                from './result.js';
-import {isTelegram, isTelegramMobile, openTelegramLink}        from './telegram.js';
+}                                                                                 from '@wagmi/core';
+import {
+    type Client,
+    encodeFunctionData,
+    type Hex,
+    isHash,
+    stringToHex,
+    TransactionReceiptNotFoundError,
+    type WalletCapabilities,
+    type WalletCapabilitiesRecord,
+}                                                                                 from 'viem';
+import {getTransactionReceipt}                                                    from 'viem/actions';
+import {
+    getCallsStatus as viemGetCallsStatus,
+    type GetCallsStatusReturnType,
+    sendCalls as viemSendCalls,
+}                                                                                 from 'viem/experimental';
+import {createSiweMessage, type SiweMessage}                                      from 'viem/siwe';
+import {type CustomProviderFn, EthereumProvider, ProviderRDNS, StavaxConnectorID} from './adapter/evm.js';
+import {StavaxAPI}                                                                from './api.js';
+import {ChainRegistry}                                                            from './chains.js';
+import {InjectedChannel, isFramedBy}                                              from './channel.js';
+import {Drawer}                                                                   from './embedded.js';
+import {
+    ApiError,
+    ChainNotSupportedError,
+    ConfigError,
+    DrawerLoadError,
+    DrawerLoadFailure,
+    fromProviderRequestError,
+    isRequestCancelled,
+    StavaxError,
+    StavaxErrorCode,
+}                                                                                 from './errors.js';
+import {createLogger, type Logger}                                                from './logger.js';
+import {abortableSleep, type RequestOptions, withTimeout}                         from './request.js';
+import {Result}                                                                   from './result.js';
+import {
+    encodeReturnStartParam,
+    parseReturnStartParam,
+    type PendingFlow,
+    pendingFlowTTL,
+    readStartParam,
+}                                                                                 from './returnFlow.js';
+import {buildBotHref}                                                             from './routes.js';
+import type {SignInWithEthereumParameters, SignInWithEthereumResult}              from './siwe.js';
+import {SmartSessionManager, type TransactionOptions}                             from './smartSession.js';
+import {
+    getSDKDeviceID,
+    localStorageAdapter,
+    memoryStorage,
+    StavaxStorage,
+    storageKeys,
+}                                                                                 from './storage.js';
+import {
+    getTelegramTheme,
+    getTelegramVersion,
+    isTelegram,
+    isTelegramMobile,
+    openTelegramLink,
+    telegramCheck,
+}                                                                                 from './telegram.js';
+import {TransactionTracker}                                                       from './transactions.js';
 
-import type {EthereumProviderRequest, PageMetadata, Session, SessionData, SmartSession, StavaxAccountConfig, SupportedPlatform} from './types.js';
-import {TgBotScreen}                                                                                                            from './types.js';
-import {randomString}                                                                                                           from './utils.js';
+import type {
+    BotRoute,
+    EthereumProviderRequest,
+    GasQuote,
+    PageMetadata,
+    ResumedFlow,
+    SendCallsParameters,
+    Session,
+    SessionData,
+    SessionResult,
+    SmartSession,
+    StavaxAccountConfig,
+    StoredSession,
+    SupportedPlatform,
+    TrackedTransaction,
+}                                                                            from './types.js';
+import {DrawerFallback, FlowKind, FlowStatus, TgBotScreen, TransactionRoute} from './types.js';
+import {isBrowser}                                                           from './utils.js';
 
 const productionAPI = 'https://account-api.stavax.io';
 const productionBotURL = 'https://t.me/stavax_account_bot/app';
 const productionWebURL = 'https://account.stavax.io';
-const stavaxSDKDeviceIDKey = 'stavax-sdk-device-id';
-
-function getSDKDeviceID(): string | undefined {
-    if ('localStorage' in window) {
-        let key = localStorage.getItem(stavaxSDKDeviceIDKey);
-        if (key) {
-            return key;
-        }
-
-        key = randomString(64);
-        localStorage.setItem(stavaxSDKDeviceIDKey, key);
-        return key;
-    }
-
-    return undefined;
-}
+const sessionPollInterval = 1_000;
+const defaultSessionTTL = 7 * 24 * 60 * 60_000;
+const maxSentCalls = 50;
 
 export class StavaxAccount {
+    /**
+     * Manages the smart sessions (pre-authorized transactions) of the connected account.
+     */
+    readonly smartSessions: SmartSessionManager;
+    /**
+     * Chains the provider can switch to.
+     */
+    readonly chains: ChainRegistry;
+    /**
+     * Transactions sent through the SDK, followed until they are confirmed, reverted or replaced.
+     */
+    readonly transactions: TransactionTracker;
+    /**
+     * Storage of the device ID and provider state, namespaced for the project.
+     */
+    readonly storage: StavaxStorage;
+    private readonly api: StavaxAPI;
+    private readonly log: Logger;
+    private injectedChannel?: InjectedChannel;
+    private provider?: EthereumProvider;
+    private _drawer?: Drawer;
+    /**
+     * URL the drawer loaded, built with the theme at that time: later changes are relayed, a new URL would reload the drawer
+     */
+    private iframeURL?: string;
+    /**
+     * Start parameter of the page, read on load before the app changes the URL, and cleared once {@link resumeFlow} resumed its session
+     */
+    private startParam = readStartParam();
+    private restoring?: Promise<Session | undefined>;
+    /**
+     * Whether the parent window answered the handshake, where the origin of the frame cannot be read
+     */
+    private hostDetected = false;
+    private hostDetection?: Promise<boolean>;
+
     /**
      * Constructs a new instance of the StavaxAccount class.
      *
      * @param {StavaxAccountConfig} config - The configuration object for the StavaxAccount.
-     * @throws {Error} Throws an error if the projectID is missing in the config.
+     * @throws {ConfigError} Throws an error if the projectID is missing in the config.
      */
     constructor(private config: StavaxAccountConfig) {
         if (!this.config.projectID) {
-            throw new Error('invalid project config');
+            throw new ConfigError(StavaxErrorCode.invalidConfig, 'invalid project config');
         }
 
         if (!this.config.apiURL) {
@@ -68,15 +167,95 @@ export class StavaxAccount {
         if (!this.config.requestTimeout) {
             this.config.requestTimeout = 60_000;
         }
+
+        this.log = createLogger(this.config);
+        this.storage = new StavaxStorage(
+            this.config.storage || (isBrowser() ? localStorageAdapter() : memoryStorage()),
+            this.config.storageNamespace ?? `stavax_${this.config.projectID}_`,
+        );
+        this.api = new StavaxAPI(this.config, this.storage, this.log);
+        this.chains = new ChainRegistry({
+            api           : this.api,
+            storage       : this.storage,
+            getWagmiConfig: () => this.config.wagmiConfig,
+            log           : this.log,
+        });
+        this.transactions = new TransactionTracker({
+            storage        : this.storage,
+            getPublicClient: chainId => this.getPublicClient(chainId),
+            log            : this.log,
+        });
+        this.smartSessions = new SmartSessionManager({
+            api           : this.api,
+            getWagmiConfig: () => this.getWagmiConfig(),
+            confirm       : (data, options) => this.confirmSession(data, options),
+            getSponsorship: () => this.config.sponsorship,
+        });
+
+        if (this.config.wagmiConfig) {
+            this.autoRestoreSession();
+        }
+    }
+
+    /**
+     * Whether the current environment supports the browser features of the SDK (opening Stavax Account, injected provider, embedded mode).
+     * StavaxAccount can still be imported and constructed where it is not supported, e.g. during server-side rendering.
+     */
+    static get isSupported(): boolean {
+        return isBrowser();
+    }
+
+    get isSupported(): boolean {
+        return StavaxAccount.isSupported;
+    }
+
+    /**
+     * Resolves once the SDK is ready to be used on the client, i.e. its storage is loaded.
+     *
+     * @return {Promise<void>} A promise that resolves when the SDK is ready.
+     * @throws {StavaxError} Throws an error with code `UNSUPPORTED_ENVIRONMENT` when called outside a browser.
+     */
+    async ready(): Promise<void> {
+        this.assertSupported();
+        await this.storage.ready;
+    }
+
+    private assertSupported() {
+        if (!this.isSupported) {
+            throw new StavaxError(StavaxErrorCode.unsupportedEnvironment, 'StavaxAccount is only supported in browsers');
+        }
     }
 
     public setWagmiConfig(wagmiConfig: Config) {
         this.config.wagmiConfig = wagmiConfig;
+        // Pending transactions restored before the config was set have no public client yet
+        this.transactions.resume();
+        this.autoRestoreSession();
+    }
+
+    get wagmiConfig(): Config | undefined {
+        return this.config.wagmiConfig;
+    }
+
+    /**
+     * Returns the client that read-only JSON-RPC requests for the chain are sent to,
+     * from the `publicClient` config, or else the wagmi config, or else the chain added with `wallet_addEthereumChain`.
+     *
+     * @param {number} chainId - The chain ID.
+     * @return {Client | undefined} The client, or undefined if the chain is not configured.
+     */
+    getPublicClient(chainId: number): Client | undefined {
+        const {publicClient, wagmiConfig} = this.config;
+        if (publicClient) {
+            return typeof publicClient === 'function' ? publicClient(chainId) : publicClient;
+        }
+
+        return (wagmiConfig && getPublicClient(wagmiConfig, {chainId})) || this.chains.getPublicClient(chainId);
     }
 
     private getWagmiConfig(): Config {
         if (!this.config.wagmiConfig) {
-            throw new Error('Missing wagmiConfig. Please provide wagmiConfig to stavaxAccount');
+            throw new ConfigError(StavaxErrorCode.missingWagmiConfig, 'Missing wagmiConfig. Please provide wagmiConfig to stavaxAccount');
         }
 
         return this.config.wagmiConfig;
@@ -88,18 +267,17 @@ export class StavaxAccount {
      * or undefined if the connection fails.
      *
      * @param {string} uri - Optional wallet connect URI
+     * @param {RequestOptions} [options] - Optional timeout and abort signal for the Stavax API calls.
      *
      * @return {Promise<Session | undefined>} Promise that resolves with a session object or undefined.
      */
-    async connect(uri?: string): Promise<Session | undefined> {
+    async connect(uri?: string, options?: RequestOptions): Promise<Session | undefined> {
         if (uri) {
-            const session = await this.createSession({uri});
-            if (!session) {
-                throw new Error('cannot create stavax account session');
-            }
+            const session = await this.createSession({uri}, options);
+            this.saveSession(session);
 
             if (!this.config.disableAutoOpenTgBot) {
-                const result = this.openTgBotWithSession(session);
+                const result = await this.openTgBotWithSession(session);
                 if (result.error) {
                     throw result.error;
                 }
@@ -107,18 +285,141 @@ export class StavaxAccount {
             return session;
         }
 
-        return this._startConnect();
+        return this._startConnect(undefined, undefined, options);
+    }
+
+    /**
+     * Stavax session of the current wallet connection, if it is not expired.
+     */
+    get activeSession(): StoredSession | undefined {
+        try {
+            const session: StoredSession | null = JSON.parse(this.storage.get(storageKeys.session) || 'null');
+            if (session?.id && session.projectId == this.config.projectID && session.expiresAt > Date.now()) {
+                return session;
+            }
+        } catch (_) {
+            // Ignore a corrupted session
+        }
+
+        return undefined;
+    }
+
+    private saveSession(session: Session, connectorId?: string) {
+        const createdAt = Date.now();
+        const expiresAt = session.expired_at ? Date.parse(session.expired_at) : createdAt + defaultSessionTTL;
+        this.storage.set(storageKeys.session, JSON.stringify({
+            id       : session.id,
+            projectId: session.project_id || this.config.projectID,
+            createdAt,
+            expiresAt: isNaN(expiresAt) ? createdAt + defaultSessionTTL : expiresAt,
+            connectorId,
+        } satisfies StoredSession));
+        this.restoring = Promise.resolve(session);
+    }
+
+    private clearSession() {
+        this.storage.remove(storageKeys.session);
+        this.restoring = undefined;
+    }
+
+    private autoRestoreSession() {
+        if (this.config.disableSessionRestore || !this.isSupported) {
+            return;
+        }
+
+        this.restoreSession().catch(err => {
+            this.log.warn('cannot restore the Stavax session', {sessionId: this.activeSession?.id, error: err});
+        });
+    }
+
+    /**
+     * Validates the persisted Stavax session against Stavax API and silently restores the wagmi connection it was created for,
+     * without opening Stavax Account. Runs once on startup unless `disableSessionRestore` is set, later calls share the same result.
+     * Expired, unknown and rejected sessions are cleared.
+     *
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<Session | undefined>} A promise that resolves with the restored session, or undefined if there is none to restore.
+     * @throws {ApiError} Throws an error if Stavax API cannot be reached, the session is then kept for the next attempt.
+     */
+    async restoreSession(options?: RequestOptions): Promise<Session | undefined> {
+        if (!this.restoring) {
+            this.restoring = this._restoreSession(options).catch(err => {
+                this.restoring = undefined;
+                throw err;
+            });
+        }
+
+        return this.restoring;
+    }
+
+    private async _restoreSession(options?: RequestOptions): Promise<Session | undefined> {
+        await this.storage.ready;
+
+        const stored = this.activeSession;
+        if (!stored) {
+            this.storage.remove(storageKeys.session);
+            return undefined;
+        }
+
+        let session: Session;
+        try {
+            session = await this.getSession(stored.id, options);
+        } catch (err) {
+            if (err instanceof ApiError && err.status >= 400 && err.status < 500) {
+                this.storage.remove(storageKeys.session);
+                return undefined;
+            }
+            throw err;
+        }
+
+        const expired = session.expired_at && Date.parse(session.expired_at) <= Date.now();
+        if (session.project_id != this.config.projectID || session.result?.success === false || expired) {
+            this.storage.remove(storageKeys.session);
+            return undefined;
+        }
+
+        const config = this.config.wagmiConfig;
+        if (config && getAccount(config).status == 'disconnected') {
+            const connectorId = stored.connectorId || 'walletConnect';
+            const connector = getConnectors(config).find(c => c.id === connectorId);
+            const connections = connector ? await reconnect(config, {connectors: [connector]}) : [];
+            if (!connections.length) {
+                // The wallet connect pairing or the provider account of the session is gone
+                this.storage.remove(storageKeys.session);
+                return undefined;
+            }
+        }
+
+        return session;
+    }
+
+    /**
+     * Disconnects the wagmi connection and forgets the Stavax session and the connected account of the provider.
+     * The next connection opens Stavax Account again.
+     */
+    async disconnect(): Promise<void> {
+        this.clearSession();
+        if (this.storage.get(storageKeys.evmAddress)) {
+            // Through the provider, so that `accountsChanged` and `disconnect` reach stavaxConnector and the app
+            this.getProvider().address = null;
+        }
+
+        const config = this.config.wagmiConfig;
+        if (config && getAccount(config).status != 'disconnected') {
+            await wagmiDisconnect(config);
+        }
     }
 
     /**
      * Connects to the Stavax account with the provided configuration,
      * resolves with wagmi connect data if successful,
      * @param handleStavaxSession - Optional callback to handle the Stavax session object
+     * @param {RequestOptions} [options] - Optional timeout and abort signal for the Stavax API calls.
      */
-    async wagmiConnect(handleStavaxSession?: (session: Session) => void): Promise<ConnectReturnType> {
+    async wagmiConnect(handleStavaxSession?: (session: Session) => void, options?: RequestOptions): Promise<ConnectReturnType> {
         return new Promise(async (resolve, reject) => {
             try {
-                const session = await this._startConnect(data => resolve(data), err => reject(err));
+                const session = await this._startConnect(data => resolve(data), err => reject(err), options);
                 handleStavaxSession?.(session!);
             } catch (err) {
                 reject(err);
@@ -126,25 +427,96 @@ export class StavaxAccount {
         });
     }
 
-    async sendTransaction(parameters: SendTransactionParameters): Promise<SendTransactionReturnType | undefined> {
+    /**
+     * Sends a transaction through a matching smart session when `enableSmartSession` is set,
+     * otherwise through wagmi and Stavax Account Bot. The transaction is tracked by `transactions`.
+     *
+     * @throws {StavaxError} Throws an error if the smart session fails and `disableSmartSessionFailSafe` is set,
+     * or if the request timed out or was aborted.
+     */
+    async sendTransaction(parameters: SendTransactionParameters, options?: TransactionOptions): Promise<SendTransactionReturnType> {
+        const transaction = await this.sendTrackedTransaction(parameters, options);
+        return transaction.hash;
+    }
+
+    /**
+     * Sends a transaction like `sendTransaction` and returns it as tracked by `transactions`,
+     * with the route it went through. Use `transactions.wait(hash)` to wait for its receipt.
+     *
+     * @param {SendTransactionParameters} parameters - The transaction to send.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy of smart session transactions, timeout and abort signal.
+     * @return {Promise<TrackedTransaction>} A promise that resolves with the pending transaction once sent.
+     */
+    async sendTrackedTransaction(parameters: SendTransactionParameters, options?: TransactionOptions): Promise<TrackedTransaction> {
+        const chainId = parameters.chainId || getChainId(this.getWagmiConfig());
+        const start = Date.now();
+
         if (this.config.enableSmartSession) {
-            const smartSession = await this.findSmartSession(parameters);
-            if (smartSession) {
-                const txHash = await this.sendSmartSessionTransaction(smartSession.id, parameters);
-                if (txHash || this.config.disableSmartSessionFailSafe) {
-                    return txHash;
+            try {
+                const smartSession = await this.findSmartSession(parameters, options);
+                if (smartSession) {
+                    const {hash, sponsorship} = await this.smartSessions.sendTransaction(smartSession.id, parameters, options);
+                    this.log.info('transaction sent', {
+                        method        : 'sendTransaction',
+                        route         : TransactionRoute.smartSession,
+                        smartSessionId: smartSession.id,
+                        hash,
+                        chainId,
+                        duration      : Date.now() - start,
+                    });
+                    return this.transactions.track({
+                        hash,
+                        chainId,
+                        route         : TransactionRoute.smartSession,
+                        smartSessionId: smartSession.id,
+                        request       : parameters,
+                        sponsorship,
+                    });
                 }
+            } catch (err) {
+                if (this.config.disableSmartSessionFailSafe || isRequestCancelled(err)) {
+                    throw err;
+                }
+                this.log.warn('smart session transaction failed, falling back to the wallet', {method: 'sendTransaction', chainId, error: err});
             }
         }
 
         if (!this.config.disableAutoOpenTgBot) {
-            this.openTgBotForInteract().then(() => console.log(`openTgBotForInteract`));
+            this.openForInteract('sendTransaction');
         }
 
-        return sendTransaction(this.getWagmiConfig(), parameters);
+        const hash = await sendTransaction(this.getWagmiConfig(), parameters);
+        this.log.info('transaction sent', {method: 'sendTransaction', route: TransactionRoute.wallet, hash, chainId, duration: Date.now() - start});
+        return this.transactions.track({
+            hash,
+            chainId,
+            route  : TransactionRoute.wallet,
+            request: parameters,
+        });
     }
 
-    async writeContract(parameters: WriteContractParameters): Promise<SendTransactionReturnType | undefined> {
+    /**
+     * Estimates the gas of a transaction sent through a matching smart session, and who would pay it.
+     *
+     * @param {SendTransactionParameters} parameters - The transaction to estimate.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<GasQuote | undefined>} A promise that resolves with the gas quote, or undefined if smart sessions are disabled
+     * or no smart session matches the transaction, in which case the user pays the gas in the wallet.
+     */
+    async quoteTransaction(parameters: SendTransactionParameters, options?: TransactionOptions): Promise<GasQuote | undefined> {
+        if (!this.config.enableSmartSession) {
+            return undefined;
+        }
+
+        const smartSession = await this.findSmartSession(parameters, options);
+        if (!smartSession) {
+            return undefined;
+        }
+
+        return this.smartSessions.quoteTransaction(smartSession.id, parameters, options);
+    }
+
+    async writeContract(parameters: WriteContractParameters, options?: TransactionOptions): Promise<SendTransactionReturnType> {
         const {abi, address, args, dataSuffix, functionName, ...request} = parameters;
         const data = encodeFunctionData({
             abi,
@@ -156,25 +528,221 @@ export class StavaxAccount {
             to  : address,
             data: `${data}${dataSuffix ? dataSuffix.replace('0x', '') : ''}`,
             ...request,
+        }, options);
+    }
+
+    /**
+     * Sends an EIP-5792 batch of calls. The batch is executed atomically through a matching smart session when
+     * `enableSmartSession` is set, otherwise it is sent through wagmi and Stavax Account Bot.
+     *
+     * @param {SendCallsParameters} parameters - The batch to send.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy of smart session batches, timeout and abort signal.
+     * @return {Promise<string>} A promise that resolves with the calls ID, to be passed to `getCallsStatus`.
+     */
+    async sendCalls(parameters: SendCallsParameters, options?: TransactionOptions): Promise<string> {
+        const id = await this.sendSmartSessionCalls(parameters, options);
+        if (id) {
+            return id;
+        }
+
+        if (!this.config.disableAutoOpenTgBot) {
+            this.openForInteract('sendCalls');
+        }
+
+        // Same as sendCalls of @wagmi/core/experimental, which requires @tanstack/query-core to be installed
+        const client = await getConnectorClient(this.getWagmiConfig(), {
+            account: parameters.account,
+            chainId: parameters.chainId,
         });
+        return viemSendCalls(client, {
+            calls: parameters.calls,
+            chain: client.chain,
+        });
+    }
+
+    /**
+     * Sends an EIP-5792 batch of calls through a matching smart session, without user confirmation.
+     *
+     * @param {SendCallsParameters} parameters - The batch to send.
+     * @param {TransactionOptions} [options] - Optional sponsorship policy, timeout and abort signal.
+     * @return {Promise<string | undefined>} A promise that resolves with the calls ID, or undefined if smart sessions are disabled,
+     * no smart session matches the batch, or the smart session failed and the fail-safe is enabled.
+     */
+    async sendSmartSessionCalls(parameters: SendCallsParameters, options?: TransactionOptions): Promise<string | undefined> {
+        if (!this.config.enableSmartSession) {
+            return undefined;
+        }
+
+        try {
+            const smartSession = await this.smartSessions.findForCalls(parameters, options);
+            if (!smartSession) {
+                return undefined;
+            }
+
+            const {hash} = await this.smartSessions.sendCalls(smartSession.id, parameters, options);
+            this.rememberCalls(hash, parameters.chainId || getChainId(this.getWagmiConfig()));
+            return hash;
+        } catch (err) {
+            if (this.config.disableSmartSessionFailSafe || isRequestCancelled(err)) {
+                throw err;
+            }
+            this.log.warn('smart session batch failed, falling back to the wallet', {method: 'sendCalls', chainId: parameters.chainId, error: err});
+            return undefined;
+        }
+    }
+
+    /**
+     * Retrieves the status of a batch sent with `sendCalls`. Batches sent through the SDK on this device are read from their chain,
+     * other batches from the chain given, or else from the connected wallet.
+     *
+     * @param {string} id - The calls ID.
+     * @param {number} [chainId] - Optional. Chain to read the batch from when it was not sent through the SDK on this device.
+     * @return {Promise<GetCallsStatusReturnType>} A promise that resolves with the status and, once confirmed, the receipts of the batch.
+     * @throws {ChainNotSupportedError} Throws an error if no public client is configured for the chain of the batch.
+     */
+    async getCallsStatus(id: string, chainId?: number): Promise<GetCallsStatusReturnType> {
+        await this.storage.ready;
+        chainId = this.getSentCalls()[id] ?? chainId;
+        if (chainId === undefined) {
+            return viemGetCallsStatus(await getConnectorClient(this.getWagmiConfig()), {id});
+        }
+
+        const client = this.getPublicClient(chainId);
+        if (!client) {
+            throw new ChainNotSupportedError(chainId, `no public client configured for chain ${chainId}`);
+        }
+
+        try {
+            const receipt = await getTransactionReceipt(client, {hash: id as Hex});
+            return {
+                status  : 'CONFIRMED',
+                receipts: [{
+                    logs           : receipt.logs.map(({address, data, topics}) => ({address, data, topics})),
+                    status         : receipt.status,
+                    blockHash      : receipt.blockHash,
+                    blockNumber    : receipt.blockNumber,
+                    gasUsed        : receipt.gasUsed,
+                    transactionHash: receipt.transactionHash,
+                }],
+            };
+        } catch (err) {
+            if (err instanceof TransactionReceiptNotFoundError) {
+                return {status: 'PENDING'};
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Remembers the chain of a batch sent through the SDK, so that its status is read from the chain, even after a reload.
+     *
+     * @param {string} id - The calls ID.
+     * @param {number} chainId - The chain the batch was sent on.
+     */
+    rememberCalls(id: string, chainId: number) {
+        const calls = Object.entries(this.getSentCalls()).filter(([key]) => key != id).slice(1 - maxSentCalls);
+        calls.push([id, chainId]);
+        this.storage.set(storageKeys.sentCalls, JSON.stringify(Object.fromEntries(calls)));
+    }
+
+    /**
+     * Chain of the batches sent through the SDK, by calls ID, oldest first
+     */
+    private getSentCalls(): Record<string, number> {
+        try {
+            return JSON.parse(this.storage.get(storageKeys.sentCalls) || '{}');
+        } catch (_) {
+            return {};
+        }
+    }
+
+    /**
+     * Returns the EIP-5792 capabilities of Stavax Account for each chain of the wagmi config.
+     */
+    getCapabilities(): WalletCapabilitiesRecord<WalletCapabilities, number> {
+        const capabilities: WalletCapabilitiesRecord<WalletCapabilities, number> = {};
+        for (const chain of this.getWagmiConfig().chains) {
+            capabilities[chain.id] = {
+                atomicBatch: {supported: true},
+            };
+        }
+
+        return capabilities;
+    }
+
+    /**
+     * Signs in with Ethereum (EIP-4361): builds the message for the current page, account and chain,
+     * and requests the user signature through Stavax Account.
+     *
+     * @param {SignInWithEthereumParameters} parameters - The sign-in parameters, `nonce` is required.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SignInWithEthereumResult>} A promise that resolves with the message, its signature and its fields.
+     * @throws {UserRejectedRequestError} Throws an error if the user rejects the signature.
+     */
+    async signInWithEthereum(parameters: SignInWithEthereumParameters, options?: RequestOptions): Promise<SignInWithEthereumResult> {
+        const metadata = await this.getPageMetadata();
+        const address = parameters.address || getAccount(this.getWagmiConfig()).address;
+        if (!address) {
+            throw new StavaxError(StavaxErrorCode.invalidParameter, 'no account to sign in with, connect Stavax Account first');
+        }
+
+        const chainId = parameters.chainId || getChainId(this.getWagmiConfig());
+        const url = new URL(metadata.url);
+        const fields: SiweMessage = {
+            ...parameters,
+            address,
+            chainId,
+            domain  : parameters.domain || url.host,
+            uri     : parameters.uri || metadata.url,
+            scheme  : url.protocol.replace(':', ''),
+            version : '1',
+            issuedAt: parameters.issuedAt || new Date(),
+        };
+        const message = createSiweMessage(fields);
+
+        const signature: Hex = await this.request('ethereum', {
+            account: {chainId, address},
+            method : 'personal_sign',
+            params : [stringToHex(message), address],
+        }, options);
+
+        return {message, signature, fields};
     }
 
-    private async _startConnect(onSuccess?: (data: ConnectReturnType) => void, onError?: (err: any) => void): Promise<Session | undefined> {
+    private async _startConnect(
+        onSuccess?: (data: ConnectReturnType) => void,
+        onError?: (err: any) => void,
+        options?: RequestOptions,
+    ): Promise<Session | undefined> {
+        const injected = await this.detectInjected();
+        if (!injected) {
+            // Reuse the connection restored from the persisted session instead of pairing again
+            const session = await this.restoreSession(options).catch(() => undefined);
+            const account = getAccount(this.getWagmiConfig());
+            if (session && account.status == 'connected' && account.connector.id === 'walletConnect') {
+                onSuccess?.({accounts: account.addresses, chainId: account.chainId});
+                return session;
+            }
+        }
+
         const that = this;
         return new Promise((resolve, reject) => {
             const connectors = getConnectors(this.getWagmiConfig());
             let connector: Connector | undefined = undefined;
 
-            if (that.isInjected) {
+            if (injected) {
                 connector = connectors.find(c => c.id === ProviderRDNS);
                 if (!connector) {
-                    reject(new Error('cannot find stavaxProvider connector.  Please check your Stavax Provider setup, make sure the setupStavaxProvider is called before createConfig from Wagmi.'));
+                    reject(new ConfigError(
+                        StavaxErrorCode.missingConnector,
+                        'cannot find stavaxProvider connector.  Please check your Stavax Provider setup, make sure the setupStavaxProvider is called before createConfig from Wagmi.',
+                    ));
                     return;
                 }
             } else {
                 connector = connectors.find(c => c.id === 'walletConnect');
                 if (!connector) {
-                    reject(new Error('missing walletConnect connector'));
+                    reject(new ConfigError(StavaxErrorCode.missingConnector, 'missing walletConnect connector. Add stavaxConnector from @stavaxio/account-sdk/connector to the wagmi config and use wagmi connect instead.'));
                     return;
                 }
 
@@ -185,10 +753,10 @@ export class StavaxAccount {
                     connector?.emitter.off('message', onDisplayURI);
                     const uri = payload.data as string;
                     if (!uri) {
-                        reject(new Error('cannot get wallet connect URI'));
+                        reject(new StavaxError(StavaxErrorCode.requestRejected, 'cannot get wallet connect URI'));
                         return;
                     }
-                    that.connect(uri).then(resolve).catch(reject);
+                    that.connect(uri, options).then(resolve).catch(reject);
                 }
 
                 connector.emitter.on('message', onDisplayURI);
@@ -199,7 +767,10 @@ export class StavaxAccount {
             }).then(data => {
                 onSuccess?.(data);
             }).catch(err => {
-                console.error(err);
+                that.log.error('wagmi connect failed', {method: 'connect', connector: connector?.id, error: err});
+                if (!injected) {
+                    that.clearSession();
+                }
                 onError?.(err);
             });
         });
@@ -209,91 +780,31 @@ export class StavaxAccount {
      * Asynchronously creates a session.
      *
      * @param {SessionData} data - Optional data for the session.
-     * @return {Promise<Session | undefined>} A promise that resolves with the created session or undefined.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<Session>} A promise that resolves with the created session.
+     * @throws {ApiError} Throws an error if Stavax API cannot create the session.
      */
-    private async createSession(data?: SessionData): Promise<Session | undefined> {
-        try {
-            const res = await this._fetch('/wallet-sessions/new', {
-                    method: 'POST',
-                    body  : JSON.stringify({
-                        project_id: this.config.projectID,
-                        data      : data || {},
-                    }),
-                },
-            );
-            if (!res.ok) {
-                console.error('failed to create new stavax session');
-                return undefined;
-            }
-            const json = await res.json();
-            return json.data;
-        } catch (err) {
-            console.error(err);
-            return undefined;
-        }
-    }
-
-    async findSmartSession(parameters: SendTransactionParameters): Promise<SmartSession | undefined> {
-        try {
-            const res = await this._fetch('/sdk-api/smart-wallets/sessions/find-session', {
-                    method: 'POST',
-                    body  : JSON.stringify({
-                        sender_address: parameters.account || getAccount(this.getWagmiConfig()).address,
-                        chain_id      : parameters.chainId || getChainId(this.getWagmiConfig()),
-                        to            : parameters.to,
-                        value         : toHex(parameters.value || 0n),
-                        data          : parameters.data,
-                    }),
-                },
-            );
-            if (!res.ok) {
-                console.error('cannot find smart session');
-                return undefined;
-            }
-            const json = await res.json();
-            return json.data;
-        } catch (err) {
-            console.error(err);
-            return undefined;
-        }
-    }
-
-    private async sendSmartSessionTransaction(smartSessionID: string, parameters: SendTransactionParameters): Promise<Hex | undefined> {
-        try {
-            const res = await this._fetch('/sdk-api/smart-wallets/sessions/send-transaction', {
-                    method: 'POST',
-                    body  : JSON.stringify({
-                        smart_session_id: smartSessionID,
-                        sender_address  : parameters.account || getAccount(this.getWagmiConfig()).address,
-                        chain_id        : parameters.chainId || getChainId(this.getWagmiConfig()),
-                        to              : parameters.to,
-                        value           : toHex(parameters.value || 0n),
-                        data            : parameters.data,
-                    }),
-                },
-            );
-            if (!res.ok) {
-                console.error('cannot send smart session');
-                return undefined;
-            }
-            const json = await res.json();
-            return json.data?.tx_hash;
-        } catch (err) {
-            console.error(err);
-            return undefined;
-        }
+    private async createSession(data?: SessionData, options?: RequestOptions): Promise<Session> {
+        return this.api.request('/wallet-sessions/new', {
+                method: 'POST',
+                body  : JSON.stringify({
+                    project_id: this.config.projectID,
+                    data      : {returnURL: this.config.returnURL, ...data},
+                }),
+            }, options,
+        );
     }
 
-    private async _fetch(path: string, options?: RequestInit): Promise<Response> {
-        return fetch(this.config.apiURL + path, {
-                mode   : 'cors',
-                headers: {
-                    'X-Project-ID'   : this.config.projectID,
-                    'X-SDK-Device-ID': getSDKDeviceID()!,
-                },
-                ...(options || {}),
-            },
-        );
+    /**
+     * Finds a smart session that pre-authorizes the transaction.
+     *
+     * @param {SendTransactionParameters} parameters - The transaction to find a smart session for.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SmartSession | undefined>} A promise that resolves with the smart session, or undefined if the user has none for this transaction.
+     * @throws {ApiError} Throws an error if Stavax API fails to look up smart sessions.
+     */
+    async findSmartSession(parameters: SendTransactionParameters, options?: RequestOptions): Promise<SmartSession | undefined> {
+        return this.smartSessions.find(parameters, options);
     }
 
     /**
@@ -333,28 +844,41 @@ export class StavaxAccount {
         });
     }
 
+    private openForInteract(method: string) {
+        this.openTgBotForInteract().then(result => {
+            if (result.error) {
+                this.log.warn('cannot open Stavax Account for interaction', {method, error: result.error});
+            } else {
+                this.log.debug('opened Stavax Account for interaction', {method});
+            }
+        }, err => {
+            this.log.warn('cannot open Stavax Account for interaction', {method, error: err});
+        });
+    }
+
     /**
      * Asynchronously opens the Telegram bot screen with the specified screen and force options.
+     * In embedded mode, an open drawer navigates to the screen directly.
      *
-     * @param {TgBotScreen} screen - The screen to open on the Telegram bot.
+     * @param {TgBotScreen | BotRoute} screen - The screen to open on the Telegram bot, or a route with prefilled parameters built with `botRoutes`.
      * @param {boolean} [force] - Optional flag indicating whether to force opening the screen.
      * @param {SessionData} [extraData] - Optional extra data pass to session.
      * @return {Promise<Result<void>>} A promise that resolves with a Result object indicating the success or failure of the operation.
      */
-    async openTgBotScreen(screen: TgBotScreen, force?: boolean, extraData?: SessionData): Promise<Result<void>> {
-        let href: string = '';
-        switch (screen) {
-            case TgBotScreen.home:
-                href = '/';
-                break;
-            case TgBotScreen.deposit:
-                href = '/currency/qr-code';
-                break;
-            case TgBotScreen.withdraw:
-                href = '/withdraw';
-                break;
-            default:
-                return new Result(void 0, new Error('invalid TgBotScreen'));
+    async openTgBotScreen(screen: TgBotScreen | BotRoute, force?: boolean, extraData?: SessionData): Promise<Result<void>> {
+        let href: string;
+        try {
+            href = buildBotHref(screen);
+        } catch (err) {
+            return new Result(void 0, err as StavaxError);
+        }
+
+        if (this.config.usingEmbeddedMode && !extraData && this.isSupported) {
+            const drawer = this.getDrawer();
+            if (drawer.ready) {
+                drawer.navigate(href);
+                return new Result(void 0);
+            }
         }
 
         return this.openTgBotWithSessionData({
@@ -368,12 +892,18 @@ export class StavaxAccount {
      *
      * @param {SessionData} data - The session data object.
      * @param {boolean} [force] - Optional flag indicating whether to force opening the bot.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal for creating the session.
      * @return {Result<void>} A Result object indicating the success or failure of opening the bot.
      */
-    async openTgBotWithSessionData(data: SessionData, force?: boolean): Promise<Result<void>> {
-        const session = await this.createSession(data);
-        if (!session) {
-            return new Result(void 0, new Error('cannot create new stavax session'));
+    async openTgBotWithSessionData(data: SessionData, force?: boolean, options?: RequestOptions): Promise<Result<void>> {
+        let session: Session;
+        try {
+            session = await this.createSession(data, options);
+        } catch (err) {
+            if (err instanceof StavaxError) {
+                return new Result(void 0, err);
+            }
+            throw err;
         }
 
         return this.openTgBotWithSession(session, force);
@@ -384,36 +914,32 @@ export class StavaxAccount {
      *
      * @param {Session} session - The session object.
      * @param {boolean} [force] - Optional flag indicating whether to force opening the bot.
-     * @return {Result<void>} A Result object indicating the success or failure of opening the bot.
+     * @return {Promise<Result<void>>} A promise that resolves with a Result object indicating the success or failure of opening the bot,
+     * in embedded mode once the drawer has loaded Stavax Account.
      */
-    openTgBotWithSession(session: Session, force?: boolean): Result<void> {
+    async openTgBotWithSession(session: Session, force?: boolean): Promise<Result<void>> {
+        if (!this.isSupported) {
+            return new Result(void 0, new StavaxError(StavaxErrorCode.unsupportedEnvironment, 'cannot open Stavax Account outside a browser'));
+        }
+
         if (session.data.openForInteract && this.isInjected && !force) {
             // When using injected mode, skip the openForInteract request since request will be sent directly via postMessage
             return new Result(void 0);
         }
 
         if (this.config.usingEmbeddedMode) {
-            const drawer = Drawer.instance(this.config);
-
-            drawer.openURL(this.getIframeURL(Telegram.WebApp.initData))
-                .then(() => drawer.postMessage({
-                    from     : 'stavax_account_sdk',
-                    eventType: 'stv_wallet_session',
-                    eventData: session,
-                }))
-                .catch(err => {
-                    console.error('Cannot openDrawerURL', err);
-                });
-            return new Result(void 0);
+            return this.openEmbedded(session);
         }
 
         if (force || isTelegram()) {
-            if (isTelegramMobile() || this.config.openTgBotOnDesktop) {
+            // Requests can only be confirmed in Stavax Account, so they open the bot on every platform
+            if (isTelegramMobile() || this.config.openTgBotOnDesktop || session.data.providerRequest || session.data.smartSessionRequest) {
                 const result = this.getTgBotWebAppURL(session);
                 if (result.error) {
                     return new Result(void 0, result.error);
                 }
                 openTelegramLink(result.value);
+                this.rememberFlow(session);
             }
             return new Result(void 0);
         }
@@ -424,13 +950,182 @@ export class StavaxAccount {
             return new Result(void 0, result.error);
         }
         open(result.value, "_blank");
+        this.rememberFlow(session);
 
         return new Result(void 0);
     }
 
+    /**
+     * Opens the session in the embedded drawer. When Stavax Account does not load in time, the session is opened in the `fallback`
+     * of the drawer options, or else stays pending while the drawer shows the error: a retry from the drawer delivers it.
+     *
+     * @return {Promise<Result<void>>} A promise that resolves with a {@link DrawerLoadError} if the drawer is closed or destroyed
+     * before Stavax Account is loaded and the session was not opened in the fallback.
+     */
+    private async openEmbedded(session: Session): Promise<Result<void>> {
+        const drawer = this.getDrawer();
+        const deliver = () => drawer.postMessage({
+            from     : 'stavax_account_sdk',
+            eventType: 'stv_wallet_session',
+            eventData: session,
+        });
+
+        try {
+            await drawer.openURL(this.getIframeURL(telegramCheck(() => Telegram.WebApp.initData, '')));
+            deliver();
+            return new Result(void 0);
+        } catch (err) {
+            let error = err as DrawerLoadError;
+            this.log.error('cannot open the drawer', {sessionId: session.id, error});
+            if (error.reason != DrawerLoadFailure.timeout) {
+                return new Result(void 0, error);
+            }
+
+            const fallback = this.config.drawer?.fallback;
+            if (fallback == DrawerFallback.telegram) {
+                const result = this.getTgBotWebAppURL(session);
+                if (result.error) {
+                    return new Result(void 0, result.error);
+                }
+                drawer.close();
+                openTelegramLink(result.value);
+                this.rememberFlow(session);
+                return new Result(void 0);
+            }
+
+            if (fallback == DrawerFallback.newTab) {
+                const result = this.getWebURL(session);
+                if (result.error) {
+                    return new Result(void 0, result.error);
+                }
+                // Tabs opened long after the click may be blocked, the drawer then offers a link to open it
+                if (open(result.value, '_blank')) {
+                    drawer.close();
+                    this.rememberFlow(session);
+                    return new Result(void 0);
+                }
+                drawer.showFallbackLink('Open in a new tab', result.value);
+            }
+
+            // Each retry that times out again leaves the session pending, until the drawer is closed
+            while (error.reason == DrawerLoadFailure.timeout) {
+                try {
+                    await drawer.waitReady();
+                    deliver();
+                    return new Result(void 0);
+                } catch (err) {
+                    error = err as DrawerLoadError;
+                }
+            }
+
+            return new Result(void 0, error);
+        }
+    }
+
+    /**
+     * Records the session opened in Stavax Account, so that {@link resumeFlow} finds it when Telegram brings the user back without a start parameter.
+     */
+    private rememberFlow(session: Session) {
+        this.storage.set(storageKeys.pendingFlow, JSON.stringify({
+            sessionId: session.id,
+            createdAt: Date.now(),
+        } satisfies PendingFlow));
+    }
+
+    private pendingFlow(): PendingFlow | undefined {
+        try {
+            const flow: PendingFlow | null = JSON.parse(this.storage.get(storageKeys.pendingFlow) || 'null');
+            if (flow?.sessionId && Date.now() - flow.createdAt < pendingFlowTTL) {
+                return flow;
+            }
+        } catch (_) {
+            // Ignore a corrupted flow
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Tells which session the user is coming back from after leaving the app for Stavax Account, and what the result was.
+     * The session is read from the start parameter the page was opened with, or else from the last session opened in the last 15 minutes.
+     * Transactions sent by the session are followed by `transactions`.
+     *
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<ResumedFlow | undefined>} A promise that resolves with the flow, or undefined if the user is not coming back from Stavax Account.
+     * @throws {ApiError} Throws an error if Stavax API cannot get the session.
+     */
+    async resumeFlow(options?: RequestOptions): Promise<ResumedFlow | undefined> {
+        await this.storage.ready;
+
+        const returnedSessionId = parseReturnStartParam(this.startParam);
+        const sessionId = returnedSessionId ?? this.pendingFlow()?.sessionId;
+        if (!sessionId) {
+            return undefined;
+        }
+
+        const session = await this.getSession(sessionId, options);
+        if (returnedSessionId) {
+            // The start parameter stays in the URL, its session is only resumed once
+            this.startParam = undefined;
+        }
+        const {data, result} = session;
+        const flow: ResumedFlow = {
+            sessionId,
+            kind  : data.providerRequest ? FlowKind.providerRequest
+                : data.smartSessionRequest ? FlowKind.smartSession
+                    : data.uri ? FlowKind.connect
+                        : FlowKind.screen,
+            method: data.providerRequest?.request.method,
+            status: !result ? FlowStatus.pending : result.success ? FlowStatus.completed : FlowStatus.rejected,
+            session,
+        };
+
+        if (result) {
+            this.storage.remove(storageKeys.pendingFlow);
+            if (result.success) {
+                flow.result = result.data;
+            } else {
+                flow.error = fromProviderRequestError(result.data);
+            }
+        }
+
+        const request = data.providerRequest?.request;
+        if (flow.status == FlowStatus.completed && request?.method == 'eth_sendTransaction' && isHash(flow.result)) {
+            flow.transaction = this.transactions.get(flow.result) ?? this.trackResumedTransaction(flow.result, request);
+        }
+
+        return flow;
+    }
+
+    private trackResumedTransaction(hash: Hex, request: EthereumProviderRequest): TrackedTransaction | undefined {
+        const [tx] = request.params || [];
+        const chainId = Number(tx?.chainId ?? request.account?.chainId);
+        if (!chainId) {
+            return undefined;
+        }
+
+        return this.transactions.track({
+            hash,
+            chainId,
+            route  : TransactionRoute.wallet,
+            request: {
+                account: tx?.from,
+                to     : tx?.to,
+                data   : tx?.data,
+                value  : tx?.value !== undefined ? BigInt(tx.value) : undefined,
+            },
+        });
+    }
+
     private getIframeURL(initData: string): string {
-        let url = `${this.config.webURL}?project_id=${encodeURIComponent(this.config.projectID)}`;
-        return `${url}#tgWebAppData=${encodeURIComponent(initData)}&tgWebAppVersion=6.0&tgWebAppPlatform=stv_iframe`;
+        if (!this.iframeURL) {
+            let url = `${this.config.webURL}?project_id=${encodeURIComponent(this.config.projectID)}`;
+            const {themeParams} = getTelegramTheme(this.config.drawer?.theme);
+            this.iframeURL = `${url}#tgWebAppData=${encodeURIComponent(initData)}&tgWebAppVersion=${encodeURIComponent(getTelegramVersion())}`
+                + `&tgWebAppPlatform=stv_iframe&tgWebAppThemeParams=${encodeURIComponent(JSON.stringify(themeParams))}`;
+        }
+
+        return this.iframeURL;
     }
 
     /**
@@ -440,7 +1135,7 @@ export class StavaxAccount {
      * @return {Result<string>} A Result object containing the URL for the Telegram bot web app, or an error if the configuration is missing.
      */
     getTgBotWebAppURL(session: Session): Result<string> {
-        const command = encodeURIComponent(`sid=${session.id}`);
+        const command = encodeURIComponent(this.startCommand(session));
         return new Result(`${this.config.tgBotWebAppURL}?startapp=${command}`);
     }
 
@@ -451,68 +1146,218 @@ export class StavaxAccount {
      * @return {Result<string>} A Result object containing the URL for the Stavax Web, or an error if the configuration is missing.
      */
     getWebURL(session: Session): Result<string> {
-        const command = encodeURIComponent(`sid=${session.id}`);
+        const command = encodeURIComponent(this.startCommand(session));
         return new Result(`${this.config.webURL}?tgWebAppStartParam=${command}`);
     }
 
+    /**
+     * Start command of Stavax Account: the session to open, and the start parameter to send the user back with once it is handled.
+     */
+    private startCommand(session: Session): string {
+        const returnParam = encodeReturnStartParam(session.id);
+        return returnParam ? `sid=${session.id}&ret=${returnParam}` : `sid=${session.id}`;
+    }
+
     static initInjectedProvider(config: StavaxAccountConfig): EthereumProvider | undefined {
         return new StavaxAccount(config).initInjectedProvider();
     }
 
-    public initInjectedProvider() {
-        return setupEthereumProvider(this);
+    /**
+     * Announces the provider with EIP-6963 in injected mode and sets it as `window.ethereum` according to `claimWindowEthereum`.
+     *
+     * @param {CustomProviderFn} [customProvider] - Optional. Handles the methods the provider does not, when the provider is created.
+     * @return {EthereumProvider | undefined} The provider, or undefined outside a browser or the injected mode.
+     */
+    public initInjectedProvider(customProvider?: CustomProviderFn): EthereumProvider | undefined {
+        // A frame of unknown origin is announced, its requests are relayed through sessions unless the host answers the handshake
+        if (!this.isSupported || (!this.isInjected && isFramedBy(this.config.webURL) === false)) {
+            return undefined;
+        }
+
+        return this.getProvider(customProvider).announce(this.config.claimWindowEthereum);
+    }
+
+    /**
+     * Returns the EIP-1193 provider of this instance, created on first use.
+     *
+     * @param {CustomProviderFn} [customProvider] - Optional. Handles the methods the provider does not, when the provider is created.
+     * @return {EthereumProvider} The provider.
+     */
+    public getProvider(customProvider?: CustomProviderFn): EthereumProvider {
+        return this.provider || (this.provider = new EthereumProvider(this, customProvider));
+    }
+
+    /**
+     * Drawer of the embedded mode, e.g. to listen to its `open` and `close` events. Undefined outside a browser or the embedded mode.
+     */
+    get drawer(): Drawer | undefined {
+        return this.config.usingEmbeddedMode && this.isSupported ? this.getDrawer() : undefined;
+    }
+
+    private getDrawer(): Drawer {
+        return this._drawer || (this._drawer = new Drawer(this.config));
+    }
+
+    /**
+     * Removes what the instance added to the page: its drawer, the listeners and EIP-6963 announcement of its provider,
+     * and `window.ethereum` if the provider claimed it. Transaction events are no longer emitted.
+     * The persisted session is kept, see {@link disconnect} to end it.
+     */
+    public destroy() {
+        this._drawer?.destroy();
+        this._drawer = undefined;
+        this.iframeURL = undefined;
+        this.provider?.destroy();
+        this.provider = undefined;
+        this.transactions.removeAllListeners();
+    }
+
+    /**
+     * Whether the page runs in the Stavax Browser. Where the origin of the frame cannot be read, it is only known
+     * once the host answered the handshake, see `detectInjected`.
+     */
+    get isInjected(): boolean {
+        if (this.config.usingInjectedMode) {
+            return true;
+        }
+
+        return isFramedBy(this.config.webURL) ?? this.hostDetected;
     }
 
-    get isInjected() {
-        return this.config.usingInjectedMode || this.config.webURL == window.location.ancestorOrigins?.[0];
+    /**
+     * Whether the page runs in the Stavax Browser, performing the handshake with the parent window
+     * where the origin of the frame cannot be read, e.g. in Firefox.
+     *
+     * @return {Promise<boolean>} A promise that resolves with `isInjected` once it is known.
+     */
+    async detectInjected(): Promise<boolean> {
+        if (this.config.usingInjectedMode || isFramedBy(this.config.webURL) !== undefined) {
+            return this.isInjected;
+        }
+
+        if (!this.hostDetection) {
+            this.hostDetection = this.getInjectedChannel().probe().then(detected => this.hostDetected = detected);
+        }
+        return this.hostDetection;
     }
 
-    async request(platform: SupportedPlatform, request: EthereumProviderRequest): Promise<any> {
-        const metadata = this.getPageMetadata();
-        if (this.isInjected) {
-            return this.injectedRequest(platform, request, metadata);
+    async request(platform: SupportedPlatform, request: EthereumProviderRequest, options?: RequestOptions): Promise<any> {
+        const metadata = await this.getPageMetadata();
+        if (await this.detectInjected()) {
+            return this.injectedRequest(platform, request, metadata, options);
         }
 
-        //TODO: create request and open Stavax Bot
-        throw new Error('send provider request without injected is not implemented');
+        return this.sessionRequest(platform, request, metadata, options);
     }
 
-    async injectedRequest(platform: SupportedPlatform, request: EthereumProviderRequest, metadata: PageMetadata): Promise<any> {
-        const id = randomString(32);
-        return new Promise<any>((resolve, reject) => {
-            const handler = (e: any) => {
-                if (e.data.id !== id) return;
-                window?.removeEventListener('message', handler);
-                if (e.data.from != 'stavax_account' || e.data.eventType != 'stv_injected_provider_response') {
-                    return;
-                }
-                if (e.data.success) {
-                    return resolve(e.data.eventData);
+    /**
+     * Relays a provider request through a Stavax session and waits for the user to handle it in Stavax Account.
+     *
+     * @param {SupportedPlatform} platform - The platform of the request.
+     * @param {EthereumProviderRequest} request - The provider request.
+     * @param {PageMetadata} metadata - Metadata of the requesting page.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<any>} A promise that resolves with the request result, or rejects if the user rejected it or the request timed out.
+     */
+    async sessionRequest(platform: SupportedPlatform, request: EthereumProviderRequest, metadata: PageMetadata, options?: RequestOptions): Promise<any> {
+        return this.confirmSession({
+            providerRequest: {platform, request, metadata},
+        }, options);
+    }
+
+    /**
+     * Creates a session that requires user confirmation, opens it in Stavax Account and waits for its result.
+     *
+     * @param {SessionData} data - The session data to confirm.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<any>} A promise that resolves with the result data, or rejects if the user rejected it or the request timed out.
+     */
+    private async confirmSession(data: SessionData, options?: RequestOptions): Promise<any> {
+        const start = Date.now();
+        const method = data.providerRequest?.request.method || (data.smartSessionRequest ? 'createSmartSession' : undefined);
+        const session = await this.createSession(data, options);
+
+        const openResult = await this.openTgBotWithSession(session);
+        if (openResult.error) {
+            throw openResult.error;
+        }
+        this.log.debug('waiting for the session result', {method, sessionId: session.id});
+
+        const result = await this.waitForSessionResult(session, options);
+        this.log.info(result.success ? 'session approved' : 'session rejected', {method, sessionId: session.id, duration: Date.now() - start});
+        if (!result.success) {
+            throw fromProviderRequestError(result.data);
+        }
+
+        if (method == 'eth_requestAccounts') {
+            // Accounts granted to the provider are restored with stavaxConnector on reload
+            this.saveSession(session, StavaxConnectorID);
+        }
+        return result.data;
+    }
+
+    /**
+     * Polls the session until Stavax Account reports a result or `requestTimeout` is reached.
+     *
+     * @param {Session} session - The session to wait for.
+     * @param {RequestOptions} [options] - Optional timeout and abort signal.
+     * @return {Promise<SessionResult>} A promise that resolves with the session result.
+     */
+    private async waitForSessionResult(session: Session, options?: RequestOptions): Promise<SessionResult> {
+        return withTimeout(async signal => {
+            while (true) {
+                await abortableSleep(sessionPollInterval, signal);
+
+                const current = await this.getSession(session.id, {signal});
+                if (current.result) {
+                    return current.result;
                 }
+            }
+        }, options?.timeout ?? this.config.requestTimeout!, options?.signal);
+    }
 
-                return reject(e.data.eventData);
-            };
+    private async getSession(id: string, options?: RequestOptions): Promise<Session> {
+        return this.api.request(`/wallet-sessions/${encodeURIComponent(id)}`, undefined, {...options, idempotent: true});
+    }
 
-            window?.parent.postMessage({
-                id,
-                from     : 'stavax_account_sdk',
-                eventType: 'stv_injected_provider_request',
-                eventData: {
-                    platform, request, metadata,
-                },
-            }, '*');
-            window?.addEventListener('message', handler);
-        });
+    async injectedRequest(platform: SupportedPlatform, request: EthereumProviderRequest, metadata: PageMetadata, options?: RequestOptions): Promise<any> {
+        this.assertSupported();
+
+        return this.getInjectedChannel().request({
+            platform, request, metadata,
+        }, options?.timeout ?? this.config.requestTimeout!, options?.signal);
+    }
+
+    /**
+     * Performs the handshake with the Stavax host in injected mode.
+     *
+     * @return {Promise<number>} A promise that resolves with the protocol version of the host, `0` for hosts predating the handshake.
+     * @throws {StavaxError} Throws an error with code `UNSUPPORTED_ENVIRONMENT` when called outside a browser.
+     */
+    async getInjectedProtocolVersion(): Promise<number> {
+        this.assertSupported();
+        return this.getInjectedChannel().connect();
+    }
+
+    private getInjectedChannel(): InjectedChannel {
+        if (!this.injectedChannel) {
+            this.injectedChannel = new InjectedChannel(this.config.webURL!, this.log, this.config.legacyInjectedProtocol);
+        }
+        return this.injectedChannel;
     }
 
-    private getPageMetadata(): PageMetadata {
+    private async getPageMetadata(): Promise<PageMetadata> {
+        this.assertSupported();
+        // The device ID may come from an asynchronous storage, it would be regenerated if read before it is loaded
+        await this.storage.ready;
+
         let icon = document.querySelector('link[rel*="icon"]')?.getAttribute('href');
         if (icon && icon.startsWith('/')) {
             icon = `${location.protocol}//${location.host}${icon}`;
         }
         return {
             projectID  : this.config.projectID,
-            sdkDeviceID: getSDKDeviceID(),
+            sdkDeviceID: getSDKDeviceID(this.storage),
             icon       : icon,
             title      : document.title,
             url        : location.href,
@@ -0,0 +1,220 @@
+import {telegramCheck} from './telegram.js';
+import {randomString}  from './utils.js';
+
+/**
+ * Keys persisted by the SDK, relative to the storage namespace
+ */
+export const storageKeys = {
+    deviceID   : 'device-id',
+    evmAddress : 'evm-address',
+    evmChainID : 'evm-chain-id',
+    evmChains  : 'evm-chains',
+    pendingTxs : 'pending-txs',
+    pendingFlow: 'pending-flow',
+    session    : 'session',
+    sentCalls  : 'sent-calls',
+};
+
+/**
+ * Keys used before storage namespaces were introduced
+ */
+const legacyStorageKeys: Record<string, string> = {
+    'stavax-sdk-device-id'             : storageKeys.deviceID,
+    'stavaxEthereumProvider_evmAddress': storageKeys.evmAddress,
+    'stavaxEthereumProvider_chainId'   : storageKeys.evmChainID,
+};
+
+/**
+ * Key-value storage used by the SDK to persist the device ID and provider state.
+ * Methods may be synchronous or return a promise, like Telegram CloudStorage.
+ */
+export interface StorageAdapter {
+    getItem(key: string): string | null | Promise<string | null>;
+
+    setItem(key: string, value: string): void | Promise<void>;
+
+    removeItem(key: string): void | Promise<void>;
+}
+
+function webStorageAdapter(getStorage: () => Storage): StorageAdapter {
+    return {
+        getItem   : key => getStorage().getItem(key),
+        setItem   : (key, value) => getStorage().setItem(key, value),
+        removeItem: key => getStorage().removeItem(key),
+    };
+}
+
+export function localStorageAdapter(): StorageAdapter {
+    return webStorageAdapter(() => localStorage);
+}
+
+export function sessionStorageAdapter(): StorageAdapter {
+    return webStorageAdapter(() => sessionStorage);
+}
+
+/**
+ * Storage kept in memory only, state is lost on page reload.
+ */
+export function memoryStorage(): StorageAdapter {
+    const items = new Map<string, string>();
+    return {
+        getItem   : key => items.get(key) ?? null,
+        setItem   : (key, value) => void items.set(key, value),
+        removeItem: key => void items.delete(key),
+    };
+}
+
+/**
+ * Storage backed by Telegram CloudStorage, which survives WebView storage being cleared.
+ * Falls back to memory outside Telegram.
+ */
+export function telegramCloudStorage(): StorageAdapter {
+    const fallback = memoryStorage();
+    // CloudStorage keys only allow A-Z, a-z, 0-9, _ and -
+    const cloudKey = (key: string) => key.replace(/[^A-Za-z0-9_-]/g, '_').substring(0, 128);
+    const call = <T>(fn: (cloud: CloudStorage, cb: (error: string | null, value: T) => void) => void): Promise<T> => {
+        return new Promise((resolve, reject) => fn(Telegram.WebApp.CloudStorage, (error, value) => error ? reject(new Error(error)) : resolve(value)));
+    };
+    const isAvailable = () => telegramCheck(() => !!Telegram.WebApp.CloudStorage && Telegram.WebApp.isVersionAtLeast('6.9'), false);
+
+    return {
+        getItem: async key => {
+            if (!isAvailable()) return fallback.getItem(key);
+            // CloudStorage returns an empty string for missing keys
+            return (await call<string | null>((cloud, cb) => cloud.getItem(cloudKey(key), cb))) || null;
+        },
+        setItem: async (key, value) => {
+            if (!isAvailable()) return fallback.setItem(key, value);
+            await call((cloud, cb) => cloud.setItem(cloudKey(key), value, cb));
+        },
+        removeItem: async key => {
+            if (!isAvailable()) return fallback.removeItem(key);
+            await call((cloud, cb) => cloud.removeItem(cloudKey(key), cb));
+        },
+    };
+}
+
+/**
+ * Namespaced view over a {@link StorageAdapter} with a synchronous read cache,
+ * so that state can be read synchronously even when the adapter is asynchronous.
+ * Failures of the adapter (e.g. storage access denied in sandboxed iframes) are ignored and the cache is kept as the source of truth.
+ */
+export class StavaxStorage {
+    /**
+     * Resolves once the SDK keys are loaded from the adapter
+     */
+    readonly ready: Promise<void>;
+    private readonly cache = new Map<string, string | null>();
+    private readonly pending = new Set<Promise<unknown>>();
+
+    constructor(private readonly adapter: StorageAdapter, private readonly namespace: string) {
+        this.migrate();
+        this.ready = this.load(Object.values(storageKeys));
+    }
+
+    /**
+     * Returns the cached value, reading it from the adapter if it is synchronous.
+     * Values of asynchronous adapters are only available once loaded with {@link load}.
+     */
+    get(key: string): string | null {
+        if (this.cache.has(key)) {
+            return this.cache.get(key)!;
+        }
+
+        try {
+            const value = this.adapter.getItem(this.namespace + key);
+            if (value instanceof Promise) {
+                this.track(value.then(v => {
+                    if (!this.cache.has(key)) this.cache.set(key, v);
+                }));
+                return null;
+            }
+            this.cache.set(key, value);
+            return value;
+        } catch (_) {
+            return null;
+        }
+    }
+
+    set(key: string, value: string) {
+        this.cache.set(key, value);
+        this.write(() => this.adapter.setItem(this.namespace + key, value));
+    }
+
+    remove(key: string) {
+        this.cache.set(key, null);
+        this.write(() => this.adapter.removeItem(this.namespace + key));
+    }
+
+    /**
+     * Loads the keys from the adapter into the cache.
+     */
+    async load(keys: string[]): Promise<void> {
+        await Promise.all(keys.map(async key => {
+            try {
+                const value = await this.adapter.getItem(this.namespace + key);
+                if (!this.cache.has(key)) this.cache.set(key, value);
+            } catch (_) {
+                // Keep the cache as is
+            }
+        }));
+    }
+
+    /**
+     * Resolves once every pending read and write of the adapter is settled.
+     */
+    async flush(): Promise<void> {
+        while (this.pending.size) {
+            await Promise.all(this.pending);
+        }
+    }
+
+    /**
+     * Copies values stored by previous SDK versions under un-namespaced keys, for synchronous adapters only.
+     * The legacy keys are kept, so that every project on the origin gets them.
+     */
+    private migrate() {
+        for (const [legacyKey, key] of Object.entries(legacyStorageKeys)) {
+            try {
+                const value = this.adapter.getItem(legacyKey);
+                if (value instanceof Promise) {
+                    value.catch(() => void 0);
+                    return;
+                }
+                if (typeof value === 'string' && this.get(key) === null) {
+                    this.set(key, value);
+                }
+            } catch (_) {
+                // Nothing to migrate
+            }
+        }
+    }
+
+    private write(fn: () => void | Promise<void>) {
+        try {
+            const result = fn();
+            if (result instanceof Promise) this.track(result);
+        } catch (_) {
+            // Keep the cache as is
+        }
+    }
+
+    private track(promise: Promise<unknown>) {
+        const tracked = promise.catch(() => void 0).finally(() => this.pending.delete(tracked));
+        this.pending.add(tracked);
+    }
+}
+
+/**
+ * Returns the ID of this device for the SDK, generating it on first use.
+ */
+export function getSDKDeviceID(storage: StavaxStorage): string {
+    let id = storage.get(storageKeys.deviceID);
+    if (id) {
+        return id;
+    }
+
+    id = randomString(64);
+    storage.set(storageKeys.deviceID, id);
+    return id;
+}
@@ -1,3 +1,5 @@
+import type {DrawerTheme} from './types.js'
+
 export function telegramCheck<T>(cb: () => T, defaultValue: T): T {
     if (typeof Telegram === 'undefined') {
         return defaultValue
@@ -23,3 +25,52 @@ export function isTelegram(): boolean {
         return !!Telegram.WebApp.platform && 'unknown' !== Telegram.WebApp.platform
     }, false)
 }
+
+/**
+ * Theme of the Mini App, `colorScheme` and `themeParams` as in `Telegram.WebApp`
+ */
+export interface TelegramTheme {
+    colorScheme: 'light' | 'dark'
+    themeParams: ThemeParams
+}
+
+/**
+ * Theme of the Telegram Mini App, with the colors of the custom theme taking precedence.
+ * Outside Telegram, the color scheme is the one of the custom theme, dark by default.
+ */
+export function getTelegramTheme(custom?: DrawerTheme): TelegramTheme {
+    const themeParams: ThemeParams = {...telegramCheck(() => Telegram.WebApp.themeParams, {})}
+    if (custom?.backgroundColor) themeParams.bg_color = themeParams.secondary_bg_color = custom.backgroundColor
+    if (custom?.textColor) themeParams.text_color = custom.textColor
+    if (custom?.hintColor) themeParams.hint_color = custom.hintColor
+    if (custom?.buttonColor) themeParams.button_color = custom.buttonColor
+    if (custom?.buttonTextColor) themeParams.button_text_color = custom.buttonTextColor
+
+    const colorScheme = custom?.colorScheme || (isTelegram() ? Telegram.WebApp.colorScheme : 'dark')
+    return {colorScheme, themeParams}
+}
+
+/**
+ * Version of the Bot API supported by the Telegram client, `6.0` outside Telegram
+ */
+export function getTelegramVersion(): string {
+    return telegramCheck(() => Telegram.WebApp.version, '') || '6.0'
+}
+
+/**
+ * Calls `onTheme` when the Telegram theme changes and `onViewport` when the Mini App is resized.
+ *
+ * @return {() => void} Stops listening.
+ */
+export function watchTelegram(onTheme: () => void, onViewport: (isStateStable: boolean) => void): () => void {
+    const viewportListener = ({isStateStable}: { isStateStable: boolean }) => onViewport(isStateStable)
+    telegramCheck(function () {
+        Telegram.WebApp.onEvent('themeChanged', onTheme)
+        Telegram.WebApp.onEvent('viewportChanged', viewportListener)
+    }, void 0)
+
+    return () => telegramCheck(function () {
+        Telegram.WebApp.offEvent('themeChanged', onTheme)
+        Telegram.WebApp.offEvent('viewportChanged', viewportListener)
+    }, void 0)
+}
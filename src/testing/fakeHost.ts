@@ -0,0 +1,357 @@
+import {injectedProtocolVersion, originOf} from '../channel.js';
+import {ProviderRpcErrorCode}              from '../errors.js';
+import type {ProviderRequestData, Session}  from '../types.js';
+
+export const defaultHostURL = 'https://account.stavax.io';
+
+/**
+ * Answers a provider request received by {@link FakeInjectedHost}: resolve with its result, throw (e.g. `{code, message}`) to reject it,
+ * or resolve with {@link pending} to answer it later with `approve` or `reject`.
+ */
+export type InjectedResponder = (request: ProviderRequestData) => unknown | Promise<unknown>;
+
+/**
+ * Returned by an {@link InjectedResponder} to leave the request pending.
+ */
+export const pending = Symbol('pending');
+
+const userRejection = {code: ProviderRpcErrorCode.userRejectedRequest, message: 'User rejected the request.'};
+
+export interface FakeInjectedHostOptions {
+    /**
+     * URL of the host, the `webURL` of the config. Default is Stavax Account web.
+     */
+    hostURL?: string;
+    /**
+     * Protocol version answered to the handshake. With `0`, the handshake is not answered like hosts predating it,
+     * and the SDK waits for its timeout before the first request.
+     */
+    protocolVersion?: number;
+}
+
+export interface InjectedHostRequest {
+    id: string;
+    data: ProviderRequestData;
+    settled: boolean;
+}
+
+/**
+ * Stavax Browser simulated as the parent of the page, answering the injected provider requests of the SDK.
+ * Set `usingInjectedMode` in the config since the page is not really framed.
+ */
+export class FakeInjectedHost {
+    /**
+     * Provider requests received, oldest first
+     */
+    readonly requests: InjectedHostRequest[] = [];
+    private readonly origin: string;
+    private readonly protocolVersion: number;
+    private responder: InjectedResponder = () => pending;
+    private nonce?: string;
+    private restore?: () => void;
+
+    constructor(options: FakeInjectedHostOptions = {}) {
+        this.origin = originOf(options.hostURL || defaultHostURL)!;
+        this.protocolVersion = options.protocolVersion ?? injectedProtocolVersion;
+    }
+
+    /**
+     * Starts receiving the messages the SDK posts to the parent window.
+     */
+    install(): this {
+        const parent = window.parent;
+        const postMessage = parent.postMessage;
+        parent.postMessage = ((message: any, ...args: any[]) => {
+            if (message?.from == 'stavax_account_sdk') {
+                this.onMessage(message);
+                return;
+            }
+            return (postMessage as Function).call(parent, message, ...args);
+        }) as typeof parent.postMessage;
+
+        this.restore = () => parent.postMessage = postMessage;
+        return this;
+    }
+
+    uninstall() {
+        this.restore?.();
+        this.restore = undefined;
+    }
+
+    /**
+     * Answers every provider request received from now on.
+     */
+    respondWith(responder: InjectedResponder): this {
+        this.responder = responder;
+        return this;
+    }
+
+    get pendingRequests(): InjectedHostRequest[] {
+        return this.requests.filter(request => !request.settled);
+    }
+
+    /**
+     * Approves a pending provider request as the user would.
+     *
+     * @param {any} result - Result of the request.
+     * @param {string} [id] - Optional request to approve. Default is the last pending request.
+     */
+    approve(result: unknown, id?: string) {
+        this.respond(this.pendingRequest(id), true, result);
+    }
+
+    /**
+     * Rejects a pending provider request as the user would, with an EIP-1193 user rejection by default.
+     */
+    reject(error: unknown = userRejection, id?: string) {
+        this.respond(this.pendingRequest(id), false, error);
+    }
+
+    private onMessage(message: { id: string; eventType: string; nonce?: string; eventData: any }) {
+        switch (message.eventType) {
+            case 'stv_injected_handshake':
+                if (this.protocolVersion) {
+                    this.nonce = message.eventData?.nonce;
+                    this.post({
+                        id       : message.id,
+                        eventType: 'stv_injected_handshake_response',
+                        success  : true,
+                        eventData: {protocolVersion: this.protocolVersion},
+                    });
+                }
+                return;
+            case 'stv_injected_provider_request': {
+                const request: InjectedHostRequest = {id: message.id, data: message.eventData, settled: false};
+                this.requests.push(request);
+                Promise.resolve()
+                    .then(() => this.responder(request.data))
+                    .then(
+                        result => result !== pending && this.respond(request, true, result),
+                        err => this.respond(request, false, err),
+                    );
+            }
+        }
+    }
+
+    private respond(request: InjectedHostRequest, success: boolean, eventData: unknown) {
+        if (request.settled) {
+            return;
+        }
+        request.settled = true;
+        this.post({id: request.id, eventType: 'stv_injected_provider_response', success, eventData});
+    }
+
+    private post(data: { id: string; eventType: string; success: boolean; eventData: unknown }) {
+        window.dispatchEvent(new MessageEvent('message', {
+            data  : {...data, from: 'stavax_account', nonce: this.nonce},
+            origin: this.origin,
+            source: window.parent,
+        }));
+    }
+
+    private pendingRequest(id?: string): InjectedHostRequest {
+        const request = id ? this.requests.find(request => request.id == id) : this.pendingRequests.at(-1);
+        if (!request || request.settled) {
+            throw new Error(id ? `request ${id} is not pending` : 'no pending request');
+        }
+
+        return request;
+    }
+}
+
+export interface FakeEmbeddedHostOptions {
+    /**
+     * `webURL` of the config. Default is Stavax Account web.
+     */
+    webURL?: string;
+    /**
+     * Whether Stavax Account reports it is ready as soon as the drawer loads it. Default is `true`.
+     */
+    autoReady?: boolean;
+}
+
+/**
+ * Stavax Account simulated in the iframe of the embedded drawer, see `usingEmbeddedMode`.
+ * Records what the SDK opens in it, the sessions themselves are answered by the Stavax API, e.g. `MockStavaxAPI`.
+ */
+export class FakeEmbeddedHost {
+    /**
+     * Messages posted by the SDK to the iframe, oldest first
+     */
+    readonly messages: { eventType: string; eventData: any }[] = [];
+    /**
+     * URLs loaded in the iframe, oldest first
+     */
+    readonly loadedURLs: string[] = [];
+    private readonly origin: string;
+    private readonly autoReady: boolean;
+    private readonly observers: MutationObserver[] = [];
+    private roots = new WeakSet<ShadowRoot>();
+    private frames = new WeakSet<HTMLIFrameElement>();
+    private iframe?: HTMLIFrameElement;
+
+    constructor(options: FakeEmbeddedHostOptions = {}) {
+        this.origin = originOf(options.webURL || defaultHostURL)!;
+        this.autoReady = options.autoReady ?? true;
+    }
+
+    /**
+     * Starts watching for the drawer, which is created on the first opening.
+     */
+    install(): this {
+        const observer = new MutationObserver(() => this.scan(document.body));
+        observer.observe(document.body, {childList: true});
+        this.observers.push(observer);
+        this.scan(document.body);
+        return this;
+    }
+
+    uninstall() {
+        this.observers.forEach(observer => observer.disconnect());
+        this.observers.length = 0;
+        this.roots = new WeakSet();
+        this.frames = new WeakSet();
+    }
+
+    get frame(): HTMLIFrameElement | undefined {
+        return this.iframe;
+    }
+
+    /**
+     * Sessions opened in the drawer, oldest first.
+     */
+    get openedSessions(): Session[] {
+        return this.messages.filter(message => message.eventType == 'stv_wallet_session').map(message => message.eventData);
+    }
+
+    /**
+     * Screens the drawer navigated to without reloading, oldest first.
+     */
+    get navigations(): string[] {
+        return this.messages.filter(message => message.eventType == 'stv_navigate').map(message => message.eventData.href);
+    }
+
+    /**
+     * Reports that Stavax Account is loaded in the drawer.
+     */
+    ready() {
+        this.send({from: 'stavax_account', method: 'stv_app_ready', params: []});
+    }
+
+    /**
+     * Closes the drawer from Stavax Account, as with `Telegram.WebApp.close`.
+     */
+    close() {
+        this.send({from: 'stavax_account', method: 'tgWebApp_close', params: []});
+    }
+
+    private send(data: unknown) {
+        if (!this.iframe?.contentWindow) {
+            throw new Error('the drawer is not loaded');
+        }
+
+        window.dispatchEvent(new MessageEvent('message', {
+            data,
+            origin: this.origin,
+            source: this.iframe.contentWindow,
+        }));
+    }
+
+    private scan(root: ParentNode) {
+        root.querySelectorAll('*').forEach(element => {
+            const shadowRoot = element.shadowRoot;
+            if (!shadowRoot?.querySelector('[stavax-drawer]') || this.roots.has(shadowRoot)) {
+                return;
+            }
+            this.roots.add(shadowRoot);
+
+            // The iframe is only added on the first opening
+            const findFrame = () => {
+                const iframe = shadowRoot.querySelector('iframe');
+                if (iframe) this.watchFrame(iframe);
+            };
+            const observer = new MutationObserver(findFrame);
+            observer.observe(shadowRoot, {childList: true, subtree: true});
+            this.observers.push(observer);
+            findFrame();
+        });
+    }
+
+    private watchFrame(iframe: HTMLIFrameElement) {
+        if (this.frames.has(iframe)) {
+            return;
+        }
+        this.frames.add(iframe);
+        this.iframe = iframe;
+
+        const onLoad = () => {
+            const contentWindow = iframe.contentWindow;
+            if (contentWindow) {
+                contentWindow.postMessage = ((message: any) => {
+                    this.messages.push({eventType: message?.eventType, eventData: message?.eventData});
+                }) as typeof contentWindow.postMessage;
+            }
+
+            this.loadedURLs.push(iframe.src);
+            if (this.autoReady) {
+                this.ready();
+            }
+        };
+
+        const observer = new MutationObserver(onLoad);
+        observer.observe(iframe, {attributes: true, attributeFilter: ['src']});
+        this.observers.push(observer);
+        if (iframe.src) {
+            onLoad();
+        }
+    }
+}
+
+/**
+ * Links opened by the SDK outside the embedded mode, in a new tab or with `Telegram.WebApp.openTelegramLink`.
+ */
+export interface OpenedLinks {
+    readonly urls: string[];
+    /**
+     * Stavax sessions opened, from the `sid` of the start command of the links
+     */
+    readonly sessionIds: string[];
+
+    restore(): void;
+}
+
+/**
+ * Records the links opened by the SDK instead of opening them.
+ */
+export function recordOpenedLinks(): OpenedLinks {
+    const urls: string[] = [];
+    const open = window.open;
+    window.open = ((url?: string | URL) => {
+        urls.push(String(url));
+        return null;
+    }) as typeof window.open;
+
+    const webApp = typeof Telegram === 'undefined' ? undefined : Telegram.WebApp;
+    const openTelegramLink = webApp?.openTelegramLink;
+    if (webApp) {
+        webApp.openTelegramLink = (url: string) => void urls.push(url);
+    }
+
+    return {
+        urls,
+        get sessionIds() {
+            return urls.flatMap(url => {
+                const {searchParams} = new URL(url);
+                const command = searchParams.get('startapp') || searchParams.get('tgWebAppStartParam');
+                const sid = command && new URLSearchParams(command).get('sid');
+                return sid ? [sid] : [];
+            });
+        },
+        restore() {
+            window.open = open;
+            if (webApp && openTelegramLink) {
+                webApp.openTelegramLink = openTelegramLink;
+            }
+        },
+    };
+}
@@ -0,0 +1,237 @@
+import {createConfig, http}                                                                 from '@wagmi/core';
+import type {Address}                                                                       from 'viem';
+import {base, mainnet, optimism}                                                            from 'viem/chains';
+import {afterEach, describe, expect, it}                                                    from 'vitest';
+import {DrawerLoadFailure, ProviderRpcErrorCode, StavaxErrorCode, UserRejectedRequestError} from '../errors.js';
+import {returnStartParamPrefix}                                                             from '../returnFlow.js';
+import {StavaxAccount}                                                                      from '../stavaxAccount.js';
+import {FlowStatus, SmartSessionStatus, type StavaxAccountConfig, TgBotScreen}              from '../types.js';
+import {defaultHostURL, FakeEmbeddedHost, FakeInjectedHost, recordOpenedLinks}              from './fakeHost.js';
+import {MockStavaxAPI, mockAddress}                                                         from './mockApi.js';
+
+const otherAddress: Address = '0x0000000000000000000000000000000000000001';
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+    cleanups.splice(0).reverse().forEach(cleanup => cleanup());
+});
+
+function createAccount(api: MockStavaxAPI, config: Partial<StavaxAccountConfig> = {}): StavaxAccount {
+    const stavaxAccount = new StavaxAccount({...api.config, disableSessionRestore: true, ...config});
+    cleanups.push(() => stavaxAccount.destroy());
+    return stavaxAccount;
+}
+
+/**
+ * Clicks a button of the error state of the drawer, once it shows it.
+ */
+async function clickDrawerButton(host: FakeEmbeddedHost, action: 'retry' | 'close') {
+    // The status is next to the iframe, in the shadow root of the drawer
+    const status = () => (host.frame?.getRootNode() as ShadowRoot | undefined)?.querySelector<HTMLElement>('.stavax-status');
+    await expect.poll(() => status()?.dataset.status).toBe('error');
+    status()!.querySelector<HTMLButtonElement>(`[data-action=${action}]`)!.click();
+}
+
+function installInjectedHost(protocolVersion?: number): FakeInjectedHost {
+    const host = new FakeInjectedHost({protocolVersion}).install();
+    cleanups.push(() => host.uninstall());
+    return host;
+}
+
+describe('MockStavaxAPI', () => {
+    it('only lists the smart sessions of the account', async () => {
+        const api = new MockStavaxAPI({smartSessions: [{id: 'mine', chain_id: base.id}]});
+        api.addSmartSession({id: 'theirs', chain_id: base.id, sender_address: otherAddress});
+        api.addSmartSession({id: 'nobody', chain_id: base.id, sender_address: undefined});
+        const {smartSessions} = createAccount(api);
+
+        await expect(smartSessions.list({address: mockAddress})).resolves.toMatchObject([{id: 'mine', status: SmartSessionStatus.active}]);
+        await expect(smartSessions.list({address: otherAddress})).resolves.toMatchObject([{id: 'theirs'}]);
+    });
+});
+
+describe('session relay', () => {
+    it('opens the request in Stavax Account and resolves with its result', async () => {
+        const api = new MockStavaxAPI();
+        const links = recordOpenedLinks();
+        cleanups.push(() => links.restore());
+        api.respondWith(session => ({success: true, data: api.defaultResult(session)}));
+
+        const stavaxAccount = createAccount(api);
+        await expect(stavaxAccount.request('ethereum', {method: 'eth_requestAccounts', params: []})).resolves.toEqual([mockAddress]);
+
+        expect(api.lastSession?.data.providerRequest?.request.method).toBe('eth_requestAccounts');
+        expect(links.sessionIds).toEqual([api.lastSession!.id]);
+    });
+
+    it('rejects with the error of the user', async () => {
+        const api = new MockStavaxAPI();
+        const links = recordOpenedLinks();
+        cleanups.push(() => links.restore());
+        api.respondWith(() => ({success: false, data: {code: ProviderRpcErrorCode.userRejectedRequest, message: 'User rejected the request.'}}));
+
+        const stavaxAccount = createAccount(api);
+        await expect(stavaxAccount.request('ethereum', {method: 'eth_requestAccounts', params: []})).rejects.toBeInstanceOf(UserRejectedRequestError);
+    });
+});
+
+describe('injected mode', () => {
+    it('performs the handshake and sends the requests to the host', async () => {
+        const api = new MockStavaxAPI();
+        const host = installInjectedHost();
+        host.respondWith(({request}) => request.method == 'eth_requestAccounts' ? [mockAddress] : null);
+
+        const stavaxAccount = createAccount(api, {usingInjectedMode: true, webURL: defaultHostURL});
+        await expect(stavaxAccount.request('ethereum', {method: 'eth_requestAccounts', params: []})).resolves.toEqual([mockAddress]);
+
+        expect(host.requests.map(request => request.data.request.method)).toEqual(['eth_requestAccounts']);
+        expect(api.openedSessions).toEqual([]);
+    });
+
+    it('leaves the request pending until the user answers', async () => {
+        const api = new MockStavaxAPI();
+        const host = installInjectedHost();
+
+        const stavaxAccount = createAccount(api, {usingInjectedMode: true, webURL: defaultHostURL});
+        const request = stavaxAccount.request('ethereum', {method: 'personal_sign', params: ['0x68656c6c6f', mockAddress]});
+        await expect.poll(() => host.pendingRequests.length).toBe(1);
+        host.reject();
+
+        await expect(request).rejects.toBeInstanceOf(UserRejectedRequestError);
+    });
+
+    it('falls back to the legacy protocol when allowed and the host does not answer the handshake', async () => {
+        const api = new MockStavaxAPI();
+        const host = installInjectedHost(0);
+        host.respondWith(() => [mockAddress]);
+
+        const stavaxAccount = createAccount(api, {usingInjectedMode: true, webURL: defaultHostURL, legacyInjectedProtocol: true});
+        await expect(stavaxAccount.request('ethereum', {method: 'eth_requestAccounts', params: []})).resolves.toEqual([mockAddress]);
+
+        expect(host.requests).toHaveLength(1);
+    }, 10_000);
+
+    it('fails the requests when the host does not answer the handshake', async () => {
+        const api = new MockStavaxAPI();
+        const host = installInjectedHost(0);
+
+        const stavaxAccount = createAccount(api, {usingInjectedMode: true, webURL: defaultHostURL});
+        await expect(stavaxAccount.request('ethereum', {method: 'eth_requestAccounts', params: []}))
+            .rejects.toMatchObject({code: StavaxErrorCode.handshakeFailed});
+
+        expect(host.requests).toEqual([]);
+    }, 10_000);
+});
+
+describe('chain switch', () => {
+    const wagmiConfig = createConfig({
+        chains                        : [mainnet, base, optimism],
+        transports                    : {[mainnet.id]: http(), [base.id]: http(), [optimism.id]: http()},
+        multiInjectedProviderDiscovery: false,
+    });
+    const api = new MockStavaxAPI({chains: [{chain_id: mainnet.id}, {chain_id: base.id}]});
+
+    it('switches to the chains of the app supported by Stavax Account', async () => {
+        const provider = createAccount(api, {wagmiConfig}).getProvider();
+        const chainChanges: string[] = [];
+        provider.on('chainChanged', (chainId: string) => chainChanges.push(chainId));
+
+        await expect(provider.request({method: 'eth_chainId'})).resolves.toBe('0x1');
+        await provider.request({method: 'wallet_switchEthereumChain', params: [{chainId: '0x2105'}]});
+
+        await expect(provider.request({method: 'eth_chainId'})).resolves.toBe('0x2105');
+        expect(chainChanges).toEqual(['0x2105']);
+    });
+
+    it('rejects chains Stavax Account does not support', async () => {
+        const provider = createAccount(api, {wagmiConfig}).getProvider();
+
+        await expect(provider.request({method: 'wallet_switchEthereumChain', params: [{chainId: '0xa'}]}))
+            .rejects.toMatchObject({code: ProviderRpcErrorCode.unrecognizedChain});
+        await expect(provider.request({method: 'eth_chainId'})).resolves.toBe('0x1');
+    });
+
+    it('rejects a switch without a chain as invalid params', async () => {
+        const provider = createAccount(api, {wagmiConfig}).getProvider();
+
+        await expect(provider.request({method: 'wallet_switchEthereumChain'}))
+            .rejects.toMatchObject({code: ProviderRpcErrorCode.invalidParams});
+        await expect(provider.request({method: 'wallet_switchEthereumChain', params: []}))
+            .rejects.toMatchObject({code: ProviderRpcErrorCode.invalidParams});
+    });
+});
+
+describe('resumed flow', () => {
+    it('resumes the session of the start parameter once', async () => {
+        const api = new MockStavaxAPI();
+        const links = recordOpenedLinks();
+        cleanups.push(() => links.restore());
+        await createAccount(api).openTgBotScreen(TgBotScreen.deposit);
+        const session = api.approve();
+
+        const href = window.location.href;
+        window.history.replaceState(null, '', `?startapp=${returnStartParamPrefix}${session.id}`);
+        cleanups.push(() => window.history.replaceState(null, '', href));
+
+        const stavaxAccount = createAccount(api);
+        await expect(stavaxAccount.resumeFlow()).resolves.toMatchObject({sessionId: session.id, status: FlowStatus.completed});
+        await expect(stavaxAccount.resumeFlow()).resolves.toBeUndefined();
+    });
+});
+
+describe('embedded drawer', () => {
+    it('delivers the session once Stavax Account is ready', async () => {
+        const api = new MockStavaxAPI();
+        const host = new FakeEmbeddedHost().install();
+        cleanups.push(() => host.uninstall());
+
+        const result = await createAccount(api, {usingEmbeddedMode: true}).openTgBotScreen(TgBotScreen.deposit);
+
+        expect(result.error).toBeUndefined();
+        await expect.poll(() => host.openedSessions.map(session => session.id)).toEqual([api.lastSession!.id]);
+    });
+
+    it('keeps the session pending after a timeout and delivers it once a retry is ready', async () => {
+        const api = new MockStavaxAPI();
+        const host = new FakeEmbeddedHost({autoReady: false}).install();
+        cleanups.push(() => host.uninstall());
+        const stavaxAccount = createAccount(api, {usingEmbeddedMode: true, drawer: {loadTimeout: 50}});
+
+        const result = stavaxAccount.openTgBotScreen(TgBotScreen.deposit);
+        await clickDrawerButton(host, 'retry');
+        await expect.poll(() => host.loadedURLs).toHaveLength(2);
+        host.ready();
+
+        expect((await result).error).toBeUndefined();
+        expect(host.openedSessions.map(session => session.id)).toEqual([api.lastSession!.id]);
+    });
+
+    it('fails when the drawer is closed after a timeout', async () => {
+        const api = new MockStavaxAPI();
+        const host = new FakeEmbeddedHost({autoReady: false}).install();
+        cleanups.push(() => host.uninstall());
+        const stavaxAccount = createAccount(api, {usingEmbeddedMode: true, drawer: {loadTimeout: 50}});
+
+        const result = stavaxAccount.openTgBotScreen(TgBotScreen.deposit);
+        await clickDrawerButton(host, 'close');
+
+        expect((await result).error).toMatchObject({reason: DrawerLoadFailure.closed});
+        expect(host.openedSessions).toEqual([]);
+    });
+
+    it('ignores messages of the frame that are not from Stavax Account', async () => {
+        const api = new MockStavaxAPI();
+        const host = new FakeEmbeddedHost({autoReady: false}).install();
+        cleanups.push(() => host.uninstall());
+
+        const result = createAccount(api, {usingEmbeddedMode: true}).openTgBotScreen(TgBotScreen.deposit);
+        await expect.poll(() => host.loadedURLs).toHaveLength(1);
+        for (const data of [null, 'stv_app_ready', {from: 'stavax_account', method: 42}]) {
+            window.dispatchEvent(new MessageEvent('message', {data, origin: new URL(defaultHostURL).origin, source: host.frame!.contentWindow}));
+        }
+        host.ready();
+
+        expect((await result).error).toBeUndefined();
+    });
+});
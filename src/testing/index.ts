@@ -0,0 +1,2 @@
+export * from './fakeHost.js';
+export * from './mockApi.js';
@@ -0,0 +1,412 @@
+import {type Address, type Hex, keccak256, stringToHex} from 'viem';
+import {ProviderRpcErrorCode}                           from '../errors.js';
+import {memoryStorage}                                  from '../storage.js';
+import {
+    type GasQuote,
+    type Session,
+    type SessionResult,
+    type SmartSession,
+    SmartSessionStatus,
+    SponsorshipMode,
+    type SponsorshipOutcome,
+    type StavaxAccountConfig,
+    type StavaxChain,
+}                                                       from '../types.js';
+
+export const mockApiURL = 'https://api.stavax.test';
+export const mockAddress: Address = '0x000000000000000000000000000000000000dEaD';
+
+/**
+ * Request received by {@link MockStavaxAPI}, `body` is the parsed JSON body.
+ */
+export interface MockApiRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: Record<string, string>;
+    body?: any;
+}
+
+/**
+ * Handler of an endpoint of {@link MockStavaxAPI}, resolving with the `data` of the response.
+ * Throw a {@link MockApiError} to respond with an unsuccessful status.
+ */
+export type MockApiHandler = (request: MockApiRequest) => unknown | Promise<unknown>;
+
+/**
+ * Answers the sessions opened by the SDK as the user would in Stavax Account, or leaves them pending by returning undefined.
+ */
+export type SessionResponder = (session: Session) => SessionResult | undefined | Promise<SessionResult | undefined>;
+
+export class MockApiError extends Error {
+    override readonly name = 'MockApiError';
+
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+export interface MockStavaxAPIOptions {
+    projectID?: string;
+    /**
+     * Address of the user, returned by `eth_requestAccounts` and owning the smart sessions
+     */
+    address?: Address;
+    /**
+     * Chains supported by Stavax Account, every chain when omitted
+     */
+    chains?: StavaxChain[];
+    smartSessions?: SmartSession[];
+}
+
+/**
+ * In-memory Stavax API covering the wallet sessions, the chains and the smart session endpoints, without network.
+ * Pass {@link config} to StavaxAccount, then answer the opened sessions with {@link approve} and {@link reject},
+ * or automatically with {@link respondWith}.
+ */
+export class MockStavaxAPI {
+    readonly projectID: string;
+    readonly address: Address;
+    /**
+     * Every request received, oldest first
+     */
+    readonly requests: MockApiRequest[] = [];
+    chains?: StavaxChain[];
+
+    private readonly sessions = new Map<string, Session>();
+    private readonly smartSessions = new Map<string, SmartSession>();
+    private readonly handlers = new Map<string, MockApiHandler>();
+    private responder?: SessionResponder;
+    private counter = 0;
+
+    constructor(options: MockStavaxAPIOptions = {}) {
+        this.projectID = options.projectID || 'test-project';
+        this.address = options.address || mockAddress;
+        this.chains = options.chains;
+        options.smartSessions?.forEach(smartSession => this.addSmartSession(smartSession));
+    }
+
+    /**
+     * StavaxAccount config calling this API, with memory storage and without retries.
+     */
+    get config(): Pick<StavaxAccountConfig, 'projectID' | 'apiURL' | 'fetch' | 'storage' | 'retry' | 'requestTimeout'> {
+        return {
+            projectID     : this.projectID,
+            apiURL        : mockApiURL,
+            fetch         : this.fetch,
+            storage       : memoryStorage(),
+            retry         : false,
+            requestTimeout: 5_000,
+        };
+    }
+
+    /**
+     * Fetch implementation to be set as the `fetch` config.
+     */
+    readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+        const headers: Record<string, string> = {};
+        new Headers(init?.headers).forEach((value, key) => headers[key] = value);
+        const request: MockApiRequest = {
+            method : (init?.method || 'GET').toUpperCase(),
+            path   : url.pathname,
+            query  : url.searchParams,
+            headers,
+            body   : typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+        };
+        this.requests.push(request);
+
+        try {
+            const data = await this.handle(request);
+            return json(200, {data: data ?? null});
+        } catch (err) {
+            if (err instanceof MockApiError) {
+                return json(err.status, {message: err.message});
+            }
+            return json(500, {message: String(err)});
+        }
+    };
+
+    /**
+     * Overrides an endpoint, e.g. `api.on('POST', '/sdk-api/smart-wallets/sessions/quote', () => quote)`.
+     */
+    on(method: string, path: string, handler: MockApiHandler): this {
+        this.handlers.set(`${method.toUpperCase()} ${path}`, handler);
+        return this;
+    }
+
+    /**
+     * Answers every session opened from now on, e.g. `api.respondWith(() => undefined)` to leave them pending.
+     */
+    respondWith(responder: SessionResponder | undefined): this {
+        this.responder = responder;
+        return this;
+    }
+
+    /**
+     * Approves a session as the user would in Stavax Account.
+     *
+     * @param {any} [data] - Optional result of the session. Default is a plausible result of the request, see {@link defaultResult}.
+     * @param {string} [sessionId] - Optional session to approve. Default is the last pending session.
+     */
+    approve(data?: unknown, sessionId?: string): Session {
+        const session = this.pendingSession(sessionId);
+        session.result = {success: true, data: data === undefined ? this.defaultResult(session) : data};
+        return session;
+    }
+
+    /**
+     * Rejects a session as the user would in Stavax Account.
+     *
+     * @param {any} [error] - Optional error of the session. Default is an EIP-1193 user rejection.
+     * @param {string} [sessionId] - Optional session to reject. Default is the last pending session.
+     */
+    reject(error?: unknown, sessionId?: string): Session {
+        const session = this.pendingSession(sessionId);
+        session.result = {
+            success: false,
+            data   : error ?? {code: ProviderRpcErrorCode.userRejectedRequest, message: 'User rejected the request.'},
+        };
+        return session;
+    }
+
+    /**
+     * Sessions opened by the SDK, oldest first.
+     */
+    get openedSessions(): Session[] {
+        return [...this.sessions.values()];
+    }
+
+    get lastSession(): Session | undefined {
+        return this.openedSessions.at(-1);
+    }
+
+    get pendingSessions(): Session[] {
+        return this.openedSessions.filter(session => !session.result);
+    }
+
+    /**
+     * Bot screens opened by the SDK, as the `href` of their sessions, oldest first.
+     */
+    get openedScreens(): string[] {
+        return this.openedSessions.flatMap(session => session.data.href ? [session.data.href] : []);
+    }
+
+    getSession(id: string): Session | undefined {
+        return this.sessions.get(id);
+    }
+
+    addSmartSession(smartSession: SmartSession): SmartSession {
+        const stored: SmartSession = {
+            sender_address: this.address,
+            status        : SmartSessionStatus.active,
+            permissions   : [],
+            ...smartSession,
+        };
+        this.smartSessions.set(stored.id, stored);
+        return stored;
+    }
+
+    getSmartSession(id: string): SmartSession | undefined {
+        return this.smartSessions.get(id);
+    }
+
+    /**
+     * Forgets the sessions, smart sessions, requests, handlers and responder.
+     */
+    reset() {
+        this.requests.length = 0;
+        this.sessions.clear();
+        this.smartSessions.clear();
+        this.handlers.clear();
+        this.responder = undefined;
+    }
+
+    /**
+     * Result of a session approved without data: the user address for connection requests, a hash for transactions,
+     * a signature for signing requests, and the smart session for smart session requests.
+     */
+    defaultResult(session: Session): unknown {
+        const {providerRequest, smartSessionRequest} = session.data;
+        if (smartSessionRequest) {
+            const now = Date.now();
+            return this.addSmartSession({
+                id          : `smart-session-${this.nextID()}`,
+                chain_id    : smartSessionRequest.chain_id,
+                permissions : smartSessionRequest.permissions,
+                spend_limits: smartSessionRequest.spend_limits,
+                created_at  : new Date(now).toISOString(),
+                expired_at  : new Date(now + smartSessionRequest.duration * 1_000).toISOString(),
+            });
+        }
+
+        switch (providerRequest?.request.method) {
+            case 'eth_requestAccounts':
+            case 'eth_accounts':
+                return [this.address];
+            case 'eth_sendTransaction':
+                return this.nextHash();
+            case 'personal_sign':
+            case 'eth_sign':
+            case 'eth_signTypedData_v4':
+                return `0x${'1b'.repeat(65)}`;
+            default:
+                return null;
+        }
+    }
+
+    private async handle(request: MockApiRequest): Promise<unknown> {
+        const {method, path, body} = request;
+        const handler = this.handlers.get(`${method} ${path}`);
+        if (handler) {
+            return handler(request);
+        }
+
+        if (method == 'POST' && path == '/wallet-sessions/new') {
+            return this.createSession(body);
+        }
+        if (method == 'GET' && path.startsWith('/wallet-sessions/')) {
+            return this.findSession(decodeURIComponent(path.slice('/wallet-sessions/'.length)));
+        }
+        if (method == 'GET' && path == '/sdk-api/chains') {
+            return this.chains;
+        }
+
+        switch (`${method} ${path}`) {
+            case 'POST /sdk-api/smart-wallets/sessions/list':
+                return [...this.smartSessions.values()].filter(smartSession =>
+                    sameAddress(smartSession.sender_address, body.sender_address)
+                    && (!body.chain_id || smartSession.chain_id == body.chain_id)
+                    && (!body.status || smartSession.status == body.status),
+                );
+            case 'POST /sdk-api/smart-wallets/sessions/detail':
+                return this.findSmartSession(body.smart_session_id);
+            case 'POST /sdk-api/smart-wallets/sessions/revoke': {
+                const smartSession = this.findSmartSession(body.smart_session_id);
+                smartSession.status = SmartSessionStatus.revoked;
+                smartSession.revoked_at = new Date().toISOString();
+                return smartSession;
+            }
+            case 'POST /sdk-api/smart-wallets/sessions/find-session':
+                return this.matchSmartSession(body) || null;
+            case 'POST /sdk-api/smart-wallets/sessions/send-transaction':
+            case 'POST /sdk-api/smart-wallets/sessions/send-calls':
+                this.findActiveSmartSession(body.smart_session_id);
+                return {tx_hash: this.nextHash(), sponsorship: sponsorshipOutcome(body.sponsorship)};
+            case 'POST /sdk-api/smart-wallets/sessions/quote':
+                this.findActiveSmartSession(body.smart_session_id);
+                return gasQuote(body.sponsorship);
+        }
+
+        throw new MockApiError(404, `no mock for ${method} ${path}`);
+    }
+
+    private async createSession(body: { project_id: string; data: Session['data'] }): Promise<Session> {
+        const session: Session = {
+            id        : `session-${this.nextID()}`,
+            project_id: body.project_id,
+            data      : body.data || {},
+        };
+        this.sessions.set(session.id, session);
+
+        const result = await this.responder?.(session);
+        if (result) {
+            session.result = result;
+        }
+
+        return structuredClone(session);
+    }
+
+    private findSession(id: string): Session {
+        const session = this.sessions.get(id);
+        if (!session) {
+            throw new MockApiError(404, 'session not found');
+        }
+
+        return structuredClone(session);
+    }
+
+    private pendingSession(id?: string): Session {
+        const session = id ? this.sessions.get(id) : this.pendingSessions.at(-1);
+        if (!session) {
+            throw new Error(id ? `session ${id} does not exist` : 'no pending session');
+        }
+
+        return session;
+    }
+
+    private findSmartSession(id: string): SmartSession {
+        const smartSession = this.smartSessions.get(id);
+        if (!smartSession) {
+            throw new MockApiError(404, 'smart session not found');
+        }
+
+        return smartSession;
+    }
+
+    private findActiveSmartSession(id: string): SmartSession {
+        const smartSession = this.findSmartSession(id);
+        if (!isActive(smartSession)) {
+            throw new MockApiError(404, 'smart session is not active');
+        }
+
+        return smartSession;
+    }
+
+    private matchSmartSession(body: { sender_address?: Address; chain_id?: number; to?: Address; calls?: { to: Address }[] }) {
+        const targets = body.calls ? body.calls.map(call => call.to) : [body.to];
+        return [...this.smartSessions.values()].find(smartSession =>
+            isActive(smartSession)
+            && sameAddress(smartSession.sender_address, body.sender_address)
+            && (!body.chain_id || smartSession.chain_id == body.chain_id)
+            && targets.every(to => smartSession.permissions?.some(permission => sameAddress(permission.contract_address, to))),
+        );
+    }
+
+    private nextID(): number {
+        return ++this.counter;
+    }
+
+    private nextHash(): Hex {
+        return keccak256(stringToHex(`${this.projectID}-${this.nextID()}`));
+    }
+}
+
+function json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'},
+    });
+}
+
+function sameAddress(a?: string | null, b?: string | null): boolean {
+    return !!a && !!b && a.toLowerCase() == b.toLowerCase();
+}
+
+function isActive(smartSession: SmartSession): boolean {
+    const expired = smartSession.expired_at && Date.parse(smartSession.expired_at) <= Date.now();
+    return smartSession.status != SmartSessionStatus.revoked && !expired;
+}
+
+function sponsorshipOutcome(sponsorship?: { mode: SponsorshipMode; token?: Address }): SponsorshipOutcome {
+    const mode = sponsorship?.mode || SponsorshipMode.project;
+    return {
+        mode,
+        sponsored: mode != SponsorshipMode.user,
+        token    : sponsorship?.token,
+        fee      : '0x0',
+    };
+}
+
+function gasQuote(sponsorship?: { mode: SponsorshipMode; token?: Address }): GasQuote {
+    const {mode, sponsored, token} = sponsorshipOutcome(sponsorship);
+    return {
+        gas_limit      : '0x5208',
+        max_fee_per_gas: '0x3b9aca00',
+        fee            : '0x13e52b9abe000',
+        mode,
+        sponsored,
+        token,
+        token_fee      : token ? '0x0' : undefined,
+    };
+}
@@ -0,0 +1,220 @@
+import type {SendTransactionParameters}  from '@wagmi/core';
+import {type Client, type Hex, toHex}    from 'viem';
+import {waitForTransactionReceipt}       from 'viem/actions';
+import type {Logger}                     from './logger.js';
+import {type StavaxStorage, storageKeys} from './storage.js';
+import {
+    type SponsorshipOutcome,
+    type TrackedTransaction,
+    type TransactionRoute,
+    TransactionStatus,
+}                                        from './types.js';
+
+export type TransactionEvent = TransactionStatus | 'change';
+
+export type TransactionListener = (transaction: TrackedTransaction) => void;
+
+export interface TransactionTrackerContext {
+    storage: StavaxStorage;
+    getPublicClient: (chainId: number) => Client | undefined;
+    log: Logger;
+}
+
+export interface TrackTransactionParameters {
+    hash: Hex;
+    chainId: number;
+    route: TransactionRoute;
+    smartSessionId?: string;
+    request: SendTransactionParameters;
+    sponsorship?: SponsorshipOutcome;
+}
+
+/**
+ * Follows the transactions sent through the SDK until they are confirmed, reverted or replaced.
+ * `pending`, `confirmed`, `reverted` and `replaced` events are emitted on status changes, `change` on every update.
+ */
+export class TransactionTracker {
+    private readonly transactions = new Map<Hex, TrackedTransaction>();
+    private readonly watchers = new Map<Hex, Promise<TrackedTransaction>>();
+    private readonly _events = new Map<TransactionEvent, Set<TransactionListener>>();
+    private restored = false;
+
+    constructor(private readonly context: TransactionTrackerContext) {
+        // Pending transactions of a previous page are only known once the storage is loaded
+        context.storage.ready.then(() => {
+            this.restore();
+            this.resume();
+        });
+    }
+
+    on(event: TransactionEvent, cb: TransactionListener) {
+        const set = this._events.get(event);
+        if (!set) this._events.set(event, new Set([cb]));
+        else set.add(cb);
+    }
+
+    removeListener(event: TransactionEvent, cb: TransactionListener) {
+        this._events.get(event)?.delete(cb);
+    }
+
+    removeAllListeners() {
+        this._events.clear();
+    }
+
+    /**
+     * Transactions tracked since the page loaded, along with the restored pending ones, most recent first.
+     */
+    list(): TrackedTransaction[] {
+        return [...this.transactions.values()].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    get pending(): TrackedTransaction[] {
+        return this.list().filter(tx => tx.status == TransactionStatus.pending);
+    }
+
+    get(hash: Hex): TrackedTransaction | undefined {
+        return this.transactions.get(hash);
+    }
+
+    /**
+     * Records a sent transaction and starts waiting for its receipt.
+     *
+     * @param {TrackTransactionParameters} parameters - The transaction hash, chain, route and request.
+     * @return {TrackedTransaction} The pending tracked transaction.
+     */
+    track(parameters: TrackTransactionParameters): TrackedTransaction {
+        const {hash, chainId, route, smartSessionId, request, sponsorship} = parameters;
+        const now = Date.now();
+        const transaction: TrackedTransaction = {
+            hash,
+            chainId,
+            route,
+            smartSessionId,
+            request  : {
+                from : typeof request.account === 'string' ? request.account : request.account?.address,
+                to   : request.to,
+                data : request.data,
+                value: request.value !== undefined ? toHex(request.value) : undefined,
+            },
+            status   : TransactionStatus.pending,
+            createdAt: now,
+            updatedAt: now,
+            sponsorship,
+        };
+
+        this.transactions.set(hash, transaction);
+        this.persist();
+        this.emit(TransactionStatus.pending, transaction);
+        this.wait(hash).catch(err => this.context.log.warn('cannot follow transaction', {hash, chainId, route, error: err}));
+
+        return transaction;
+    }
+
+    /**
+     * Waits until the transaction is no longer pending.
+     *
+     * @param {Hex} hash - Hash of a tracked transaction.
+     * @return {Promise<TrackedTransaction>} A promise that resolves with the confirmed, reverted or replaced transaction.
+     * @throws {Error} Throws an error if the transaction is not tracked, its chain has no public client, or its receipt cannot be fetched.
+     * The transaction is then kept pending and followed again by {@link resume}.
+     */
+    async wait(hash: Hex): Promise<TrackedTransaction> {
+        const transaction = this.transactions.get(hash);
+        if (!transaction) {
+            throw new Error(`transaction ${hash} is not tracked`);
+        }
+        if (transaction.status != TransactionStatus.pending) {
+            return transaction;
+        }
+
+        let watcher = this.watchers.get(hash);
+        if (!watcher) {
+            watcher = this.watch(transaction).finally(() => this.watchers.delete(hash));
+            this.watchers.set(hash, watcher);
+        }
+
+        return watcher;
+    }
+
+    /**
+     * Follows again every pending transaction that is not being waited for, e.g. once the wagmi config is set.
+     */
+    resume() {
+        for (const {hash, chainId, route} of this.pending) {
+            this.wait(hash).catch(err => this.context.log.warn('cannot follow transaction', {hash, chainId, route, error: err}));
+        }
+    }
+
+    private async watch(transaction: TrackedTransaction): Promise<TrackedTransaction> {
+        const client = this.context.getPublicClient(transaction.chainId);
+        if (!client) {
+            throw new Error(`no public client for chain ${transaction.chainId}`);
+        }
+
+        const receipt = await waitForTransactionReceipt(client, {
+            hash      : transaction.hash,
+            onReplaced: replacement => {
+                this.update(transaction.hash, {
+                    status           : TransactionStatus.replaced,
+                    replacedBy       : replacement.transaction.hash,
+                    replacementReason: replacement.reason,
+                    blockNumber      : Number(replacement.transactionReceipt.blockNumber),
+                });
+            },
+        });
+
+        const current = this.transactions.get(transaction.hash)!;
+        if (current.status == TransactionStatus.replaced) {
+            return current;
+        }
+
+        return this.update(transaction.hash, {
+            status     : receipt.status == 'success' ? TransactionStatus.confirmed : TransactionStatus.reverted,
+            blockNumber: Number(receipt.blockNumber),
+        });
+    }
+
+    private update(hash: Hex, changes: Partial<TrackedTransaction>): TrackedTransaction {
+        const transaction: TrackedTransaction = {...this.transactions.get(hash)!, ...changes, updatedAt: Date.now()};
+        this.transactions.set(hash, transaction);
+        this.persist();
+        this.emit(transaction.status, transaction);
+
+        return transaction;
+    }
+
+    private emit(status: TransactionStatus, transaction: TrackedTransaction) {
+        this._events.get(status)?.forEach(cb => cb(transaction));
+        this._events.get('change')?.forEach(cb => cb(transaction));
+    }
+
+    private restore() {
+        try {
+            const transactions: TrackedTransaction[] = JSON.parse(this.context.storage.get(storageKeys.pendingTxs) || '[]');
+            for (const transaction of transactions) {
+                if (!this.transactions.has(transaction.hash)) {
+                    this.transactions.set(transaction.hash, transaction);
+                }
+            }
+        } catch (_) {
+            // Ignore a corrupted list
+        }
+
+        this.restored = true;
+        this.persist();
+    }
+
+    private persist() {
+        // Do not overwrite the pending transactions of a previous page before they are restored
+        if (!this.restored) {
+            return;
+        }
+
+        const pending = this.pending;
+        if (pending.length) {
+            this.context.storage.set(storageKeys.pendingTxs, JSON.stringify(pending));
+        } else {
+            this.context.storage.remove(storageKeys.pendingTxs);
+        }
+    }
+}
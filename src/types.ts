@@ -1,4 +1,8 @@
-import type {Config} from '@wagmi/core';
+import type {Config}               from '@wagmi/core';
+import type {Address, Client, Hex} from 'viem';
+import type {Logger, LogLevel}     from './logger.js';
+import type {RetryConfig}          from './request.js';
+import type {StorageAdapter}       from './storage.js';
 
 /**
  * Configuration options for StavaxAccount.
@@ -12,10 +16,24 @@ import type {Config} from '@wagmi/core';
  * @property {boolean} [disableAutoOpenTgBot=false] - Optional. Disables automatic opening of the Telegram bot. Default is `false`.
  * @property {boolean} [openTgBotOnDesktop=false] - Optional. Whether to open the Telegram bot on desktop. Default is `false`.
  * @property {number} [requestTimeout=60000] - Optional. Timeout for requests in milliseconds. Default is 60,000 ms (60 seconds).
+ * @property {RetryConfig | false} [retry] - Optional. Retry policy for idempotent Stavax API calls, or `false` to disable retries. Default is 2 retries with exponential backoff.
  * @property {boolean} [enableSmartSession=false] - Optional. Enables the smart session. Default is `false`.
  * @property {boolean} [disableSmartSessionFailSafe=false] - Optional. Disables the smart session fail-safe logic. By default, the SDK will fall back to the Wagmi function if the Stavax API responds with an unsuccessful status. Default is `false`.
  * @property {boolean} [usingEmbeddedMode=false] - Optional. Open Embedded Stavax Account (iframe) instead of Stavax Account Bot.
  * @property {boolean} [usingInjectedMode=false] - Optional. Using Stavax Account Injected provider.
+ * @property {StorageAdapter} [storage] - Optional. Storage of the device ID and provider state. Default is `localStorageAdapter()`, falling back to memory when storage is not accessible.
+ * @property {string} [storageNamespace] - Optional. Prefix of the storage keys. Default is `stavax_<projectID>_`.
+ * @property {Client | Function} [publicClient] - Optional. Viem client, or function returning the client of a chain, that read-only JSON-RPC requests of the provider are sent to. Default is the public client of the chain in `wagmiConfig`.
+ * @property {SponsorshipPolicy} [sponsorship] - Optional. Who pays the gas of smart session transactions, can be overridden per call. Default is the policy of the project in Stavax Account.
+ * @property {string} [returnURL] - Optional. Link Stavax Account sends the user back to once a session is handled, e.g. the direct link of the mini app `https://t.me/my_bot/app`. Default is the app link of the project in Stavax Account.
+ * @property {boolean} [disableSessionRestore=false] - Optional. Disables validating the persisted Stavax session and restoring the wagmi connection on startup. Default is `false`.
+ * @property {typeof fetch} [fetch] - Optional. Fetch implementation Stavax API is called with, e.g. `MockStavaxAPI.fetch` of `@stavaxio/account-sdk/testing`. Default is the global `fetch`.
+ * @property {Logger} [logger] - Optional. Receives the logs of the SDK with their context, e.g. `console` or your monitoring. Default is no logging.
+ * @property {LogLevel} [logLevel] - Optional. Minimum level of the logs. Default is `warn`, or `debug` in debug mode.
+ * @property {boolean} [debug=false] - Optional. Traces the Stavax API calls and the postMessage traffic with Stavax Browser and the embedded drawer, to `console` unless `logger` is set. Default is `false`.
+ * @property {boolean} [claimWindowEthereum] - Optional. Whether the injected provider is set as `window.ethereum`: `true` replaces any provider, `false` only announces it with EIP-6963. Default is to set it unless it is already a Stavax Account provider.
+ * @property {boolean} [legacyInjectedProtocol=false] - Optional. Whether to talk to Stavax hosts that do not answer the handshake with the legacy protocol, without channel nonce. Default is `false`, requests to such hosts fail with `HANDSHAKE_FAILED`.
+ * @property {DrawerOptions} [drawer] - Optional. Snap points and dismissal of the embedded drawer, see `usingEmbeddedMode`.
  */
 export interface StavaxAccountConfig {
     projectID: string;
@@ -26,10 +44,97 @@ export interface StavaxAccountConfig {
     disableAutoOpenTgBot?: boolean;
     openTgBotOnDesktop?: boolean;
     requestTimeout?: number;
+    retry?: RetryConfig | false;
     enableSmartSession?: boolean;
     disableSmartSessionFailSafe?: boolean;
     usingEmbeddedMode?: boolean;
     usingInjectedMode?: boolean;
+    storage?: StorageAdapter;
+    storageNamespace?: string;
+    publicClient?: Client | ((chainId: number) => Client | undefined);
+    sponsorship?: SponsorshipPolicy;
+    returnURL?: string;
+    disableSessionRestore?: boolean;
+    fetch?: typeof fetch;
+    logger?: Logger;
+    logLevel?: LogLevel;
+    debug?: boolean;
+    claimWindowEthereum?: boolean;
+    legacyInjectedProtocol?: boolean;
+    drawer?: DrawerOptions;
+}
+
+/**
+ * Options of the embedded drawer.
+ *
+ * @interface DrawerOptions
+ * @property {number[]} [snapPoints] - Optional. Heights the drawer rests at, smallest first: fractions of the viewport height up to `1`, or pixels above it.
+ * The drawer opens at the first one and is dragged between them. Default is `[1]`, the whole viewport.
+ * @property {boolean} [dismissible=true] - Optional. Whether the user can close the drawer by dragging it down, clicking the overlay or pressing Escape. Default is `true`.
+ * @property {number} [loadTimeout=15000] - Optional. Time in milliseconds Stavax Account has to load in the drawer before the drawer shows an error and a retry button. Default is `15000`.
+ * @property {DrawerFallback} [fallback=none] - Optional. Where a session is opened when Stavax Account does not load in the drawer. Default is `none`, the drawer offers to retry and delivers the session once Stavax Account is ready.
+ * @property {DrawerTheme} [theme] - Optional. Colors of the drawer and of Stavax Account in it, over the Telegram theme. Default is the Telegram theme, or dark outside Telegram.
+ */
+export interface DrawerOptions {
+    snapPoints?: number[];
+    dismissible?: boolean;
+    loadTimeout?: number;
+    fallback?: DrawerFallback;
+    theme?: DrawerTheme;
+}
+
+/**
+ * Custom theme of the embedded drawer. Every color is a CSS color, and is also given to Stavax Account as its Telegram theme.
+ *
+ * @interface DrawerTheme
+ * @property {'light' | 'dark'} [colorScheme] - Optional. Color scheme of the drawer, and the default of the other colors. Default is the one of Telegram, or `dark` outside Telegram.
+ * @property {string} [backgroundColor] - Optional. Background of the drawer and of Stavax Account.
+ * @property {string} [textColor] - Optional. Text of the drawer and of Stavax Account.
+ * @property {string} [hintColor] - Optional. Handle, borders and secondary text.
+ * @property {string} [buttonColor] - Optional. Background of the buttons, e.g. Retry.
+ * @property {string} [buttonTextColor] - Optional. Text of the buttons.
+ * @property {string} [overlayColor] - Optional. Overlay behind the drawer, only used by the drawer.
+ */
+export interface DrawerTheme {
+    colorScheme?: 'light' | 'dark';
+    backgroundColor?: string;
+    textColor?: string;
+    hintColor?: string;
+    buttonColor?: string;
+    buttonTextColor?: string;
+    overlayColor?: string;
+}
+
+/**
+ * Where a session is opened when Stavax Account does not load in the embedded drawer.
+ */
+export enum DrawerFallback {
+    none = 'none',
+    /**
+     * Stavax Account Bot, with `Telegram.WebApp.openTelegramLink` in Telegram
+     */
+    telegram = 'telegram',
+    /**
+     * Stavax Web in a new tab. If the browser blocks the tab, the drawer shows a link to open it.
+     */
+    newTab = 'new_tab'
+}
+
+/**
+ * Why the embedded drawer closed.
+ */
+export enum DrawerCloseReason {
+    /**
+     * Stavax Account closed itself, e.g. once a request is handled
+     */
+    app = 'app',
+    drag = 'drag',
+    overlay = 'overlay',
+    escape = 'escape',
+    /**
+     * `drawer.close()` was called, or the close button of the error state was clicked
+     */
+    api = 'api'
 }
 
 export interface SessionData {
@@ -45,24 +150,336 @@ export interface SessionData {
      * Show loading in bot while wait for event
      */
     openForInteract?: boolean;
+    /**
+     * Provider request to be confirmed by user in Stavax Account
+     */
+    providerRequest?: ProviderRequestData;
+    /**
+     * Smart session to be approved by user in Stavax Account
+     */
+    smartSessionRequest?: SmartSessionRequest;
+    /**
+     * Link to send the user back to once the session is handled, with the return payload as `startapp` parameter
+     */
+    returnURL?: string;
+}
+
+export interface ProviderRequestData {
+    platform: SupportedPlatform;
+    request: EthereumProviderRequest;
+    metadata: PageMetadata;
+}
+
+export interface SessionResult {
+    success: boolean;
+    data: any;
+}
+
+/**
+ * What the user was doing in Stavax Account when a flow was interrupted.
+ */
+export enum FlowKind {
+    connect = 'connect',
+    providerRequest = 'provider_request',
+    smartSession = 'smart_session',
+    screen = 'screen'
+}
+
+export enum FlowStatus {
+    /**
+     * The user came back before handling the session
+     */
+    pending = 'pending',
+    completed = 'completed',
+    rejected = 'rejected'
+}
+
+/**
+ * Flow the user is coming back from, see `StavaxAccount.resumeFlow`.
+ *
+ * @interface ResumedFlow
+ * @property {string} sessionId - ID of the Stavax session opened in Stavax Account.
+ * @property {FlowKind} kind - Kind of the session.
+ * @property {string} [method] - Optional. Method of the provider request, e.g. `eth_sendTransaction`.
+ * @property {FlowStatus} status - Whether the session is completed, rejected or not handled yet.
+ * @property {any} [result] - Optional. Result of a completed session, e.g. the transaction hash or the signature.
+ * @property {Error} [error] - Optional. Error of a rejected session.
+ * @property {TrackedTransaction} [transaction] - Optional. Transaction sent by the session, followed by `transactions`.
+ * @property {Session} session - The session as reported by Stavax API.
+ */
+export interface ResumedFlow {
+    sessionId: string;
+    kind: FlowKind;
+    method?: string;
+    status: FlowStatus;
+    result?: any;
+    error?: Error;
+    transaction?: TrackedTransaction;
+    session: Session;
 }
 
 export interface Session {
     id: string;
     project_id: string;
     data: SessionData;
+    /**
+     * Available once the session has been handled in Stavax Account
+     */
+    result?: SessionResult;
+    /**
+     * ISO 8601 expiry, when Stavax API sets one
+     */
+    expired_at?: string;
+}
+
+/**
+ * Stavax session of the current wallet connection, persisted in the SDK storage to restore the connection on reload.
+ *
+ * @interface StoredSession
+ * @property {string} id - ID of the Stavax session.
+ * @property {string} projectId - Project the session was created for.
+ * @property {number} createdAt - Unix timestamp in milliseconds.
+ * @property {number} expiresAt - Unix timestamp in milliseconds after which the session is no longer restored.
+ * @property {string} [connectorId] - Optional. Wagmi connector the session was created with, reconnected on restore. Default is `walletConnect`.
+ */
+export interface StoredSession {
+    id: string;
+    projectId: string;
+    createdAt: number;
+    expiresAt: number;
+    connectorId?: string;
+}
+
+export enum SmartSessionStatus {
+    active = 'active',
+    expired = 'expired',
+    revoked = 'revoked'
+}
+
+/**
+ * Contract calls covered by a smart session.
+ * When `functions` is empty, every function of the contract is covered.
+ */
+export interface SmartSessionPermission {
+    contract_address: Address;
+    /**
+     * Function signatures (e.g. `transfer(address,uint256)`) or 4-byte selectors
+     */
+    functions?: string[];
+}
+
+/**
+ * Spending limit of a smart session, `token` is omitted for the native token.
+ * Amounts are hex encoded in the token's smallest unit.
+ */
+export interface SmartSessionSpendLimit {
+    token?: Address;
+    limit: Hex;
+    spent?: Hex;
 }
 
 export interface SmartSession {
     id: string;
+    chain_id?: number;
+    sender_address?: Address;
+    status?: SmartSessionStatus;
+    permissions?: SmartSessionPermission[];
+    spend_limits?: SmartSessionSpendLimit[];
+    /**
+     * RFC 3339 timestamps
+     */
+    created_at?: string;
+    expired_at?: string;
+    revoked_at?: string;
+}
+
+/**
+ * Scope of a smart session requested by the dApp, to be approved by user in Stavax Account.
+ */
+export interface SmartSessionRequest {
+    chain_id: number;
+    permissions: SmartSessionPermission[];
+    spend_limits?: SmartSessionSpendLimit[];
+    /**
+     * Lifetime of the smart session in seconds
+     */
+    duration: number;
+}
+
+export enum SponsorshipMode {
+    /**
+     * Gas is paid by the paymaster of the project
+     */
+    project = 'project',
+    /**
+     * Gas is paid by the user in an ERC-20 token through a token paymaster
+     */
+    token = 'token',
+    /**
+     * Gas is paid by the user in the native token
+     */
+    user = 'user'
+}
+
+/**
+ * Gas sponsorship policy of ERC-4337 smart session transactions.
+ *
+ * @property {SponsorshipMode} mode - Who pays the gas.
+ * @property {string} [policyId] - Optional. Paymaster policy of the project to use in `project` mode. Default is the default policy of the project.
+ * @property {Address} [token] - ERC-20 token the gas is paid in, required in `token` mode.
+ */
+export type SponsorshipPolicy =
+    | { mode: SponsorshipMode.project; policyId?: string }
+    | { mode: SponsorshipMode.token; token: Address }
+    | { mode: SponsorshipMode.user };
+
+/**
+ * Who actually paid the gas of a smart session transaction, as reported by Stavax API.
+ * Amounts are hex encoded, in wei for `fee` and in the token's smallest unit for `token_fee`.
+ */
+export interface SponsorshipOutcome {
+    mode: SponsorshipMode;
+    sponsored: boolean;
+    token?: Address;
+    fee?: Hex;
+    token_fee?: Hex;
+    /**
+     * Why the requested sponsorship was not applied, e.g. the paymaster policy does not cover the contract
+     */
+    reason?: string;
+}
+
+/**
+ * Gas estimate of a smart session transaction or batch under a sponsorship policy.
+ * Amounts are hex encoded, in wei for `fee` and in the token's smallest unit for `token_fee`.
+ */
+export interface GasQuote {
+    gas_limit: Hex;
+    max_fee_per_gas: Hex;
+    fee: Hex;
+    mode: SponsorshipMode;
+    sponsored: boolean;
+    token?: Address;
+    token_fee?: Hex;
+}
+
+/**
+ * Chain supported by Stavax Account.
+ */
+export interface StavaxChain {
+    chain_id: number;
+    name?: string;
+}
+
+export interface BatchCall {
+    to: Address;
+    data?: Hex;
+    value?: bigint;
+}
+
+/**
+ * Parameters of an EIP-5792 batch of calls.
+ *
+ * @interface SendCallsParameters
+ * @property {BatchCall[]} calls - The calls to execute atomically, in order.
+ * @property {number} [chainId] - Optional. Default is the current wagmi chain.
+ * @property {Address} [account] - Optional. Default is the connected wagmi account.
+ */
+export interface SendCallsParameters {
+    calls: BatchCall[];
+    chainId?: number;
+    account?: Address;
+}
+
+/**
+ * How a transaction was sent: pre-authorized by a smart session, or confirmed by the user in the wallet (Stavax Account Bot).
+ */
+export enum TransactionRoute {
+    smartSession = 'smart_session',
+    wallet = 'wallet'
+}
+
+export enum TransactionStatus {
+    pending = 'pending',
+    confirmed = 'confirmed',
+    reverted = 'reverted',
+    replaced = 'replaced'
+}
+
+/**
+ * Transaction followed by the SDK until it is confirmed, reverted or replaced.
+ * Pending transactions are persisted in the SDK storage and followed again after a page reload.
+ *
+ * @interface TrackedTransaction
+ * @property {Hex} hash - Hash of the transaction.
+ * @property {number} chainId - Chain the transaction was sent on.
+ * @property {TransactionRoute} route - Whether the transaction went through a smart session or the wallet.
+ * @property {string} [smartSessionId] - Optional. Smart session that pre-authorized the transaction.
+ * @property {TrackedTransactionRequest} request - The transaction as requested, `value` is hex encoded.
+ * @property {TransactionStatus} status - Current status.
+ * @property {number} createdAt - Unix timestamp in milliseconds.
+ * @property {number} updatedAt - Unix timestamp in milliseconds of the last status change.
+ * @property {number} [blockNumber] - Optional. Block of the receipt once mined.
+ * @property {Hex} [replacedBy] - Optional. Hash of the transaction that replaced it.
+ * @property {string} [replacementReason] - Optional. `repriced` when sped up, `cancelled` or `replaced` otherwise.
+ * @property {SponsorshipOutcome} [sponsorship] - Optional. Who paid the gas of a smart session transaction.
+ */
+export interface TrackedTransaction {
+    hash: Hex;
+    chainId: number;
+    route: TransactionRoute;
+    smartSessionId?: string;
+    request: TrackedTransactionRequest;
+    status: TransactionStatus;
+    createdAt: number;
+    updatedAt: number;
+    blockNumber?: number;
+    replacedBy?: Hex;
+    replacementReason?: 'cancelled' | 'replaced' | 'repriced';
+    sponsorship?: SponsorshipOutcome;
+}
+
+export interface TrackedTransactionRequest {
+    from?: Address;
+    to?: Address | null;
+    data?: Hex;
+    value?: Hex;
 }
 
 export enum TgBotScreen {
     home = 'home',
     deposit = 'deposit',
-    withdraw = 'withdraw'
+    withdraw = 'withdraw',
+    swap = 'swap',
+    history = 'history',
+    transaction = 'transaction',
+    token = 'token',
+    settings = 'settings',
+    smartSessions = 'smart_sessions'
 }
 
+/**
+ * Token of a bot route, an ERC-20 contract address or `native` for the native token of the chain.
+ */
+export type BotRouteToken = Address | 'native';
+
+/**
+ * Screen of Stavax Account Bot along with its prefilled parameters, see {@link buildBotHref}.
+ * Amounts are decimal strings in token units, e.g. `1.5`.
+ */
+export type BotRoute =
+    | { screen: TgBotScreen.home }
+    | { screen: TgBotScreen.deposit; chainId?: number; token?: BotRouteToken; amount?: string }
+    | { screen: TgBotScreen.withdraw; chainId?: number; token?: BotRouteToken; amount?: string; recipient?: Address }
+    | { screen: TgBotScreen.swap; chainId?: number; fromToken?: BotRouteToken; toToken?: BotRouteToken; amount?: string }
+    | { screen: TgBotScreen.history; chainId?: number }
+    | { screen: TgBotScreen.transaction; chainId: number; hash: Hex }
+    | { screen: TgBotScreen.token; chainId: number; token: BotRouteToken }
+    | { screen: TgBotScreen.settings }
+    | { screen: TgBotScreen.smartSessions; smartSessionId?: string };
+
+export type BotRouteParameters<S extends TgBotScreen> = Omit<Extract<BotRoute, { screen: S }>, 'screen'>;
+
 export type SupportedPlatform = 'ethereum'
 
 export interface PageMetadata {
@@ -2,9 +2,19 @@ export function randomString(len: number = 32): string {
     let result = '';
     const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
     const charactersLength = characters.length;
+    // Prefer a cryptographically secure source, random strings are also used as nonces
+    const values = globalThis.crypto?.getRandomValues ? globalThis.crypto.getRandomValues(new Uint32Array(len)) : undefined;
     for (let i = 0; i < len; i++) {
-        result += characters.charAt(Math.floor(Math.random() * charactersLength));
+        const random = values ? values[i]! / 2 ** 32 : Math.random();
+        result += characters.charAt(Math.floor(random * charactersLength));
     }
 
     return result;
 }
+
+/**
+ * Whether the code runs in a browser, as opposed to server-side rendering.
+ */
+export function isBrowser(): boolean {
+    return typeof window !== 'undefined' && typeof document !== 'undefined';
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import type {ModuleFormat} from 'rollup';
 import {defineConfig}      from 'vite';
 import dts                 from 'vite-plugin-dts';
@@ -13,6 +14,10 @@ export default defineConfig({
             entry   : {
                 index: './src/index.ts',
                 'adapter/evm': './src/adapter/evm.ts',
+                connector    : './src/connector.ts',
+                elements     : './src/elements/index.ts',
+                react        : './src/react/index.ts',
+                testing      : './src/testing/index.ts',
             },
             formats : ['es'],
             fileName: (_: ModuleFormat, entryName: string) => {
@@ -21,10 +26,20 @@ export default defineConfig({
         },
         rollupOptions: {
             external: [
-                '@wagmi/core',
-                'viem',
+                /^@wagmi\/core(\/.*)?$/,
+                /^viem(\/.*)?$/,
+                /^react(\/.*)?$/,
             ],
         },
     },
-    plugins: [dts()],
+    plugins: [dts({exclude: ['src/**/*.test.ts']})],
+    test   : {
+        environment       : 'happy-dom',
+        environmentOptions: {
+            happyDOM: {
+                // Stavax Account in the drawer is played by FakeEmbeddedHost
+                settings: {navigation: {disableChildFrameNavigation: true}},
+            },
+        },
+    },
 });